@@ -40,7 +40,7 @@ export default Vite.defineConfig(({ command, mode }) => ({
             prebuild:       true
         }),
         ...(formats === "umd" ? [ nodePolyfills({
-            include: [ "stream", "buffer" ],
+            include: [ "stream", "buffer", "events", "crypto", "zlib" ],
             globals: {},
             protocolImports: true
         }) ] : [])
@@ -50,6 +50,9 @@ export default Vite.defineConfig(({ command, mode }) => ({
             external: formats === "umd" ? [] : [
                 "node:stream",
                 "node:buffer",
+                "node:events",
+                "node:crypto",
+                "node:zlib",
                 "nanoid",
                 "cbor2",
                 "p-lazy"
@@ -23,18 +23,22 @@
 */
 
 /*  utility type for branding  */
-type Brand<T> = T & { readonly __brand: unique symbol }
+type Brand<T, B extends string> = T & { readonly __brand: B }
 
 /*  endpoint types  */
-export type APIEndpoint         = APIEndpointEvent | APIEndpointService | APIEndpointResource
+export type APIEndpoint         = APIEndpointEvent | APIEndpointState | APIEndpointService | APIEndpointStream | APIEndpointResource
 export type APIEndpointEvent    = (...args: any[]) => void | Promise<void>
+export type APIEndpointState    = (value: any) => void
 export type APIEndpointService  = (...args: any[]) => any  | Promise<any>
+export type APIEndpointStream   = (...args: any[]) => AsyncIterable<any>
 export type APIEndpointResource = (...args: any[]) => void | Promise<void>
 
 /*  API marker types  */
-export type Event<T    extends APIEndpointEvent>    = Brand<T>
-export type Service<T  extends APIEndpointService>  = Brand<T>
-export type Resource<T extends APIEndpointResource> = Brand<T>
+export type Event<T    extends APIEndpointEvent>    = Brand<T, "event">
+export type State<T>                                = Brand<(value: T) => void, "state">
+export type Service<T  extends APIEndpointService>  = Brand<T, "service">
+export type Stream<T   extends APIEndpointStream>   = Brand<T, "stream">
+export type Resource<T extends APIEndpointResource> = Brand<T, "resource">
 
 /*  type utilities for generic API  */
 export type APISchema = Record<string, APIEndpoint>
@@ -44,12 +48,103 @@ export type EventKeys<T> = string extends keyof T ? string : {
     [ K in keyof T ]: T[K] extends Event<infer _F> ? K : never
 }[ keyof T ]
 
+/*  match a key against a topic pattern with wildcards ("+", "#" and ":name")  */
+type PatternMatch<P extends string, K extends string> =
+    P extends "#" ? true :
+    P extends `${infer PH}/${infer PR}` ?
+        K extends `${infer KH}/${infer KR}` ?
+            (PatternSegmentMatch<PH, KH> extends true ? PatternMatch<PR, KR> : false) :
+            false :
+    K extends `${string}/${string}` ? false :
+    PatternSegmentMatch<P, K>
+type PatternSegmentMatch<P extends string, K extends string> =
+    P extends "+" | `:${string}` ? true : P extends K ? true : false
+
+/*  extract event keys matching a topic pattern  */
+export type EventKeysMatching<T, P extends string> = string extends EventKeys<T> ? EventKeys<T> : {
+    [ K in EventKeys<T> & string ]: PatternMatch<P, K> extends true ? K : never
+}[ EventKeys<T> & string ]
+
+/*  extract names of named segments (":name") of a topic pattern  */
+export type PatternSegments<P extends string> =
+    P extends `${infer H}/${infer R}` ? PatternSegmentName<H> | PatternSegments<R> : PatternSegmentName<P>
+type PatternSegmentName<S extends string> =
+    S extends `:${infer N}` ? N : never
+
+/*  extract state keys where type is branded as State  */
+export type StateKeys<T> = string extends keyof T ? string : {
+    [ K in keyof T ]: T[K] extends State<infer _V> ? K : never
+}[ keyof T ]
+
+/*  extract value type of a state endpoint  */
+export type StateValue<F> =
+    F extends (value: infer V) => void ? V : never
+
 /*  extract service keys where type is branded as Service  */
 export type ServiceKeys<T> = string extends keyof T ? string : {
     [ K in keyof T ]: T[K] extends Service<infer _F> ? K : never
 }[ keyof T ]
 
+/*  extract stream keys where type is branded as Stream  */
+export type StreamKeys<T> = string extends keyof T ? string : {
+    [ K in keyof T ]: T[K] extends Stream<infer _F> ? K : never
+}[ keyof T ]
+
 /*  extract resource keys where type is branded as Resource  */
 export type ResourceKeys<T> = string extends keyof T ? string : {
     [ K in keyof T ]: T[K] extends Resource<infer _F> ? K : never
-}[ keyof T ]
\ No newline at end of file
+}[ keyof T ]
+
+/*  extract item type of a stream endpoint  */
+export type StreamItem<F> =
+    F extends (...args: any[]) => AsyncIterable<infer I> ? I : never
+
+/*  runtime schema type (compatible with the "Standard Schema" specification,
+    as implemented by Zod, Valibot, ArkType, etc.)  */
+export interface StandardSchema<Input = unknown, Output = Input> {
+    readonly "~standard": {
+        readonly version:  1
+        readonly vendor:   string
+        readonly validate: (value: unknown) =>
+            StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+        readonly types?:   { readonly input: Input, readonly output: Output }
+    }
+}
+export type StandardSchemaResult<Output> =
+    | { readonly value: Output, readonly issues?: undefined }
+    | { readonly issues: ReadonlyArray<StandardSchemaIssue> }
+export interface StandardSchemaIssue {
+    readonly message: string
+    readonly path?:   ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+}
+
+/*  runtime schema types for API endpoints  */
+export type APIEndpointSchema =
+    | { kind: "event",    params: StandardSchema<any[]> }
+    | { kind: "state",    value:  StandardSchema }
+    | { kind: "service",  params: StandardSchema<any[]>, result?: StandardSchema }
+    | { kind: "stream",   params: StandardSchema<any[]>, item?:   StandardSchema }
+    | { kind: "resource", params: StandardSchema<any[]> }
+export type APIRuntimeSchema = Record<string, APIEndpointSchema>
+
+/*  infer output type of a runtime schema  */
+type SchemaOutput<S> =
+    S extends StandardSchema<any, infer O> ? O : unknown
+type SchemaParams<S> =
+    SchemaOutput<S> extends any[] ? SchemaOutput<S> : never
+
+type SchemaResult<E> =
+    E extends { result: infer R } ? SchemaOutput<R> | Promise<SchemaOutput<R>> : any
+
+/*  infer API type from runtime schema  */
+export type InferAPI<S extends APIRuntimeSchema> = {
+    -readonly [ K in keyof S ]:
+        S[K] extends { kind: "event" }    ? Event<(...args: SchemaParams<S[K]["params"]>) => void> :
+        S[K] extends { kind: "state" }    ? State<SchemaOutput<S[K]["value"]>> :
+        S[K] extends { kind: "service" }  ? Service<(...args: SchemaParams<S[K]["params"]>) =>
+            SchemaResult<S[K]>> :
+        S[K] extends { kind: "stream" }   ? Stream<(...args: SchemaParams<S[K]["params"]>) =>
+            AsyncIterable<S[K] extends { item: infer I } ? SchemaOutput<I> : unknown>> :
+        S[K] extends { kind: "resource" } ? Resource<(...args: SchemaParams<S[K]["params"]>) => void> :
+        never
+}
@@ -22,37 +22,73 @@
 **  SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
 */
 
+/*  built-in requirements  */
+import { Buffer }                            from "node:buffer"
+
 /*  external requirements  */
-import type { MqttClient,
+import type { IClientPublishOptions,
     IClientSubscribeOptions,
+    IConnackPacket,
     IPublishPacket }                         from "mqtt"
 
 /*  internal requirements  */
 import { APISchema }                         from "./mqtt-plus-api"
-import { EventEmission,
-    ServiceCallRequest,
-    ServiceCallResponse,
-    ResourceTransferRequest,
-    ResourceTransferResponse,
-    MsgTrait }                               from "./mqtt-plus-msg"
-import { APIOptions }                        from "./mqtt-plus-options"
+import type { Message,
+    PeerEndpoints }                          from "./mqtt-plus-msg"
+import { DiagnosticTrait }                   from "./mqtt-plus-diagnostic"
+import type { DiagnosticEvents,
+    Diagnostic }                             from "./mqtt-plus-diagnostic"
+import { APIOptionsPartial }                 from "./mqtt-plus-options"
+import { OrderedRunner,
+    compressionEncodings }                   from "./mqtt-plus-util"
+
+/*  MQTT client type (the subset of the MQTT.js client API actually used,
+    as provided by both the MQTT.js MqttClient and the in-memory LoopbackClient)  */
+export interface MqttClientAPI {
+    connected:      boolean
+    options?:       { will?: { topic: string } }
+    on              (event: "message", listener: (topic: string, message: Buffer, packet: IPublishPacket) => void): unknown
+    on              (event: "connect", listener: (connack: IConnackPacket) => void): unknown
+    on              (event: "close",   listener: () => void): unknown
+    off             (event: "message", listener: (topic: string, message: Buffer, packet: IPublishPacket) => void): unknown
+    off             (event: "connect", listener: (connack: IConnackPacket) => void): unknown
+    off             (event: "close",   listener: () => void): unknown
+    emit            (event: "error", err: Error): boolean
+    listenerCount   (event: "error"): number
+    subscribe       (topic: string | string[], options: IClientSubscribeOptions,
+                     callback: (err: Error | null, granted?: any) => void): unknown
+    unsubscribe     (topic: string | string[], callback: (err?: Error, packet?: any) => void): unknown
+    publish         (topic: string, message: Buffer | string, options: IClientPublishOptions,
+                     callback?: (err?: Error) => void): unknown
+}
 
 /*  MQTTp Base class with shared infrastructure  */
-export class BaseTrait<T extends APISchema = APISchema> extends MsgTrait<T> {
-    protected mqtt: MqttClient
+export class BaseTrait<T extends APISchema = APISchema> extends DiagnosticTrait<T> {
+    protected mqtt: MqttClientAPI
+    protected destroyed = false
     private _messageHandler: (topic: string, message: Uint8Array, packet: IPublishPacket) => void
+    private _connectHandler: (connack: IConnackPacket) => void
+    private _closeHandler:   () => void
+    private topicSubscriptions = new Map<string, {
+        count:   number,
+        options: IClientSubscribeOptions,
+        promise: Promise<void>
+    }>()
+    private peerEncodings = new Map<string, ("gzip" | "deflate" | "brotli")[]>()
+    private receiving     = new OrderedRunner()
+    private publishing    = new OrderedRunner()
 
     /*  construct API class  */
     constructor (
-        mqtt: MqttClient | null,
-        options: Partial<APIOptions> = {}
+        mqtt: MqttClientAPI | null,
+        options: APIOptionsPartial = {}
     ) {
         super(options)
 
         /*  optionally provide a fake proxy for the MQTT client
             (mainly for using emit({ ..., dry: true }) to just make MQTT "last will")  */
         if (mqtt === null)
-            mqtt = new Proxy<MqttClient>({} as MqttClient, {
+            mqtt = new Proxy<MqttClientAPI>({} as MqttClientAPI, {
                 get(_target, prop, _receiver): any {
                     if (prop === "isFakeProxy")
                         return true
@@ -69,25 +105,96 @@ export class BaseTrait<T extends APISchema = APISchema> extends MsgTrait<T> {
             this._onMessage(topic, message, packet)
         }
         this.mqtt.on("message", this._messageHandler)
+
+        /*  hook into the MQTT connection handling
+            (for restoring subscriptions after reconnects without a persistent session
+            and for settling pending requests on connection losses)  */
+        let reconnect = this.mqtt.connected === true
+        this._connectHandler = (connack) => {
+            if (reconnect && !connack?.sessionPresent)
+                this._restoreSubscriptions()
+            reconnect = true
+        }
+        this._closeHandler = () => {
+            this._connectionLost(new Error("connection lost"))
+        }
+        this.mqtt.on("connect", this._connectHandler)
+        this.mqtt.on("close", this._closeHandler)
     }
 
-    /*  destroy API class  */
-    destroy () {
+    /*  destroy API class (by settling all pending operations and unsubscribing from all MQTT topics)  */
+    async destroy (): Promise<void> {
+        /*  short-circuit processing if already destroyed  */
+        if (this.destroyed)
+            return
+        this.destroyed = true
+
+        /*  settle all pending operations of the traits  */
+        await this._destroy(new Error("destroyed"))
+
+        /*  unhook from the MQTT client  */
         this.mqtt.off("message", this._messageHandler)
+        this.mqtt.off("connect", this._connectHandler)
+        this.mqtt.off("close", this._closeHandler)
+
+        /*  unsubscribe from all still subscribed MQTT topics
+            (only while actually connected, and with the waiting for the acknowledgement bounded)  */
+        const topics = [ ...this.topicSubscriptions.keys() ]
+        this.topicSubscriptions.clear()
+        if (topics.length > 0 && this.mqtt.connected === true) {
+            await new Promise<void>((resolve) => {
+                const timer = setTimeout(() => {
+                    this._diagnose("error", new Error("unsubscribe: communication timeout"), { category: "subscription" })
+                    resolve()
+                }, this.options.timeout)
+                this.mqtt.unsubscribe(topics, (err?: Error) => {
+                    clearTimeout(timer)
+                    if (err)
+                        this._diagnose("error", err, { category: "subscription" })
+                    resolve()
+                })
+            })
+        }
     }
 
-    /*  subscribe to an MQTT topic (Promise-based)  */
+    /*  subscribe to an MQTT topic (Promise-based and reference-counted)  */
     protected async _subscribeTopic (topic: string, options: Partial<IClientSubscribeOptions> = {}) {
-        return new Promise<void>((resolve, reject) => {
-            this.mqtt.subscribe(topic, { qos: 2, ...options }, (err: Error | null, _granted: any) => {
-                if (err) reject(err)
-                else     resolve()
+        /*  subscribe to MQTT topic on first use only  */
+        let entry = this.topicSubscriptions.get(topic)
+        if (entry === undefined) {
+            const opts: IClientSubscribeOptions = { qos: 2, ...options }
+            const promise = new Promise<void>((resolve, reject) => {
+                this.mqtt.subscribe(topic, opts, (err: Error | null, _granted: any) => {
+                    if (err) reject(err)
+                    else     resolve()
+                })
             })
-        })
+            const created = { count: 0, options: opts, promise }
+            promise.catch(() => {
+                /*  forget failed subscription (for all its users)  */
+                if (this.topicSubscriptions.get(topic) === created)
+                    this.topicSubscriptions.delete(topic)
+            })
+            this.topicSubscriptions.set(topic, created)
+            entry = created
+        }
+
+        /*  account for this use  */
+        entry.count++
+        return entry.promise
     }
 
-    /*  unsubscribe from an MQTT topic (Promise-based)  */
+    /*  unsubscribe from an MQTT topic (Promise-based and reference-counted)  */
     protected async _unsubscribeTopic (topic: string) {
+        /*  short-circuit processing if (no longer) subscribed  */
+        const entry = this.topicSubscriptions.get(topic)
+        if (entry === undefined)
+            return
+
+        /*  unsubscribe from MQTT topic on last use only  */
+        if (--entry.count > 0)
+            return
+        this.topicSubscriptions.delete(topic)
         return new Promise<void>((resolve, reject) => {
             this.mqtt.unsubscribe(topic, (err?: Error, _packet?: any) => {
                 if (err) reject(err)
@@ -96,38 +203,219 @@ export class BaseTrait<T extends APISchema = APISchema> extends MsgTrait<T> {
         })
     }
 
-    /*  handle incoming MQTT message  */
-    private _onMessage (topic: string, message: Uint8Array, packet: IPublishPacket): void {
-        /*  try to parse message as payload  */
-        let parsed:
-            EventEmission             |
-            ServiceCallRequest        |
-            ServiceCallResponse       |
-            ResourceTransferRequest   |
-            ResourceTransferResponse
+    /*  restore all MQTT topic subscriptions (after the broker has lost them)  */
+    private _restoreSubscriptions () {
+        for (const [ topic, { options } ] of this.topicSubscriptions) {
+            this.mqtt.subscribe(topic, options, (err: Error | null) => {
+                if (err)
+                    this._diagnose("error", err, { category: "subscription", topic })
+            })
+        }
+    }
+
+    /*  subscribe to response topic (reference-counted)  */
+    protected _responseSubscribe (name: string, operation: string, options: IClientSubscribeOptions = { qos: 2 }): void {
+        const topic = this.options.topicMake(name, operation, this.options.id)
+        this._subscribeTopic(topic, options).catch((err: Error) => {
+            this._diagnose("error", err, { category: "subscription", topic })
+        })
+    }
+
+    /*  unsubscribe from response topic (reference-counted)  */
+    protected _responseUnsubscribe (name: string, operation: string): void {
+        const topic = this.options.topicMake(name, operation, this.options.id)
+        this._unsubscribeTopic(topic).catch((err: Error) => {
+            this._diagnose("error", err, { category: "subscription", topic })
+        })
+    }
+
+    /*  handle incoming MQTT message
+        (in order of arrival, even if messages have to be decompressed asynchronously)  */
+    private _onMessage (topic: string, message: Uint8Array, _packet: IPublishPacket): void {
+        this.receiving.run(() => {
+            /*  handle empty payload (as used for clearing retained messages)  */
+            if (message.byteLength === 0) {
+                this._dispatchClear(topic)
+                return
+            }
+
+            /*  try to decode message  */
+            let decoded: unknown
+            try {
+                let input: Uint8Array | string = message
+                if (this.options.codec === "json")
+                    input = message.toString()
+                decoded = this.codec.decode(input)
+            }
+            catch (err: unknown) {
+                this._parseFailed(topic, err)
+                return
+            }
+
+            /*  parse message (after decompressing it, if necessary)  */
+            if (this.codec.compressed(decoded)) {
+                return this.codec.decompress(decoded).then((payload) => {
+                    this._parseMessage(topic, payload)
+                }, (err: unknown) => {
+                    this._parseFailed(topic, err)
+                })
+            }
+            this._parseMessage(topic, decoded)
+        })
+    }
+
+    /*  parse decoded message and receive it  */
+    private _parseMessage (topic: string, payload: unknown): void {
+        let parsed: Message
         try {
-            let input: Uint8Array | string = message
-            if (this.options.codec === "json")
-                input = message.toString()
-            const payload = this.codec.decode(input)
             parsed = this.msg.parse(payload)
         }
-        catch (_err: unknown) {
-            const err = _err instanceof Error
-                ? new Error(`failed to parse message: ${_err.message}`)
-                : new Error("failed to parse message")
-            this.mqtt.emit("error", err)
+        catch (err: unknown) {
+            this._parseFailed(topic, err)
             return
         }
+        this._receiveMessage(topic, parsed)
+    }
+
+    /*  report message which failed to be parsed  */
+    private _parseFailed (topic: string, _err: unknown): void {
+        const err = _err instanceof Error
+            ? new Error(`failed to parse message: ${_err.message}`)
+            : new Error("failed to parse message")
+        this._diagnose("message-rejected", err, { category: "parse", topic })
+    }
 
+    /*  receive parsed message
+        (base implementation, to be overridden for intercepting)  */
+    protected _receiveMessage (topic: string, parsed: Message): void {
         /*  dispatch to trait handlers  */
         this._dispatchMessage(topic, parsed)
     }
 
+    /*  reject parsed message
+        (base implementation, to be overridden in sub-traits for responding)  */
+    protected _rejectMessage (_topic: string, _parsed: Message, _err: Error): void {}
+
+    /*  encode and publish message to MQTT topic
+        (base implementation, to be overridden for intercepting)  */
+    protected _publishMessage (
+        topic:     string,
+        message:   Message,
+        options:   IClientPublishOptions = {},
+        callback?: (err?: Error) => void
+    ): void {
+        const encoded = this.codec.encode(message)
+        const done = callback ?? ((err?: Error) => {
+            /*  report failures of publishings nobody waits for  */
+            if (err)
+                this._diagnose("error", err, { category: "publication", topic, message })
+        })
+
+        /*  publish messages in order, even if some of them are compressed asynchronously
+            (where large event and service payloads are optionally compressed,
+            if directed to a peer which announced to accept the compression)  */
+        const compression = this._peerCompression(message.receiver)
+        this.publishing.run(() => {
+            if (compression !== undefined
+                && (typeof encoded === "string" ? encoded.length : encoded.byteLength) > this.options.compression.threshold
+                && [ "event-emission", "service-call-request", "service-call-response" ].includes(message.type)) {
+                return this.codec.compress(encoded, compression).then((compressed) => {
+                    this._publishEncoded(topic, compressed, options, done)
+                }, (err: Error) => {
+                    done(err)
+                })
+            }
+            this._publishEncoded(topic, encoded, options, done)
+        })
+    }
+
+    /*  determine the encodings to announce as accepted by this peer
+        (only if compression is enabled locally, as peers of older versions reject the announcement,
+        and only those supported by the zlib implementation, as browser builds lack brotli)  */
+    protected _acceptedEncodings (): ("gzip" | "deflate" | "brotli")[] | undefined {
+        return this.options.compression.algorithm !== "none" ? [ ...compressionEncodings ] : undefined
+    }
+
+    /*  remember the encodings a peer announced as accepted (or forget them)  */
+    protected _peerAccepts (peerId: string, encodings?: ("gzip" | "deflate" | "brotli")[]): void {
+        if (encodings !== undefined)
+            this.peerEncodings.set(peerId, encodings)
+        else
+            this.peerEncodings.delete(peerId)
+    }
+
+    /*  determine the compression to use for sending to a peer
+        (only if enabled locally, supported by the zlib implementation and
+        announced as accepted by the peer, i.e., never for broadcasts)  */
+    protected _peerCompression (peerId: string | undefined): "gzip" | "deflate" | "brotli" | undefined {
+        const algorithm = this.options.compression.algorithm
+        if (algorithm === "none" || !compressionEncodings.includes(algorithm)
+            || peerId === undefined || !this.peerEncodings.get(peerId)?.includes(algorithm))
+            return undefined
+        return algorithm
+    }
+
+    /*  publish encoded payload to MQTT topic
+        (base implementation, to be overridden for intercepting)  */
+    protected _publishEncoded (
+        topic:     string,
+        payload:   Uint8Array | string,
+        options:   IClientPublishOptions = {},
+        callback?: (err?: Error) => void
+    ): void {
+        this.mqtt.publish(topic, Buffer.from(payload), options, callback)
+    }
+
     /*  dispatch parsed message to appropriate handler
         (base implementation, to be overridden in sub-traits)  */
     protected _dispatchMessage (
         _topic:  string,
         _parsed: any
     ): void {}
+
+    /*  collect names of locally offered endpoints
+        (base implementation, to be extended in sub-traits)  */
+    protected _collectEndpoints (
+        _endpoints: PeerEndpoints
+    ): void {}
+
+    /*  report a diagnostic event without any attached handlers
+        (by emitting errors and rejected messages on the MQTT client, if it has any
+        "error" handlers attached, as otherwise the emitting would throw)  */
+    protected _diagnoseUnhandled (event: keyof DiagnosticEvents, err: Error, diagnostic: Diagnostic): void {
+        if (event !== "warning" && this.mqtt.listenerCount("error") > 0)
+            this.mqtt.emit("error", err)
+        else
+            super._diagnoseUnhandled(event, err, diagnostic)
+    }
+
+    /*  notify about a change of locally offered endpoints
+        (base implementation, to be overridden in sub-traits)  */
+    protected _endpointsChanged (): void {}
+
+    /*  determine the ids of the peers known to offer a service
+        (base implementation, where no peers are known, to be overridden in sub-traits)  */
+    protected _servicePeers (
+        _service: string
+    ): string[] | undefined {
+        return undefined
+    }
+
+    /*  settle pending requests on a connection loss
+        (base implementation, to be overridden in sub-traits)  */
+    protected _connectionLost (
+        _err:    Error
+    ): void {}
+
+    /*  settle all pending operations on destruction
+        (base implementation, to be overridden in sub-traits)  */
+    protected async _destroy (
+        _err:    Error
+    ): Promise<void> {}
+
+    /*  dispatch clearing of retained message to appropriate handler
+        (base implementation, to be overridden in sub-traits)  */
+    protected _dispatchClear (
+        _topic:  string
+    ): void {}
 }
@@ -27,7 +27,9 @@ import * as CBOR                     from "cbor2"
 
 /*  internal requirements  */
 import { APISchema }                 from "./mqtt-plus-api"
-import { APIOptions, OptionsTrait }  from "./mqtt-plus-options"
+import { APIOptionsPartial,
+    OptionsTrait }                   from "./mqtt-plus-options"
+import { compress, decompress }     from "./mqtt-plus-util"
 
 /*  JSON encode/decode with Uint8Array support  */
 class JSONX {
@@ -101,6 +103,32 @@ export default class Codec {
             throw new Error("invalid format or wrong data type")
         return result
     }
+    async compress (encoded: Uint8Array | string, encoding: "gzip" | "deflate" | "brotli"): Promise<Uint8Array | string> {
+        /*  wrap encoded data into an envelope with the compressed data (if it actually becomes smaller)  */
+        const data = typeof encoded === "string" ? new TextEncoder().encode(encoded) : encoded
+        const envelope = this.encode({ encoding, data: await compress(encoding, data) })
+        const length = (data: Uint8Array | string) =>
+            typeof data === "string" ? data.length : data.byteLength
+        return length(envelope) < length(encoded) ? envelope : encoded
+    }
+    compressed (decoded: unknown): boolean {
+        /*  determine whether decoded data is an envelope with compressed data  */
+        return typeof decoded === "object" && decoded !== null && !("type" in decoded) && "encoding" in decoded
+    }
+    async decompress (decoded: unknown): Promise<unknown> {
+        /*  unwrap the encoded data from an envelope with compressed data  */
+        if (!this.compressed(decoded))
+            return decoded
+        const { encoding, data } = decoded as { encoding: unknown, data: unknown }
+        if (encoding !== "gzip" && encoding !== "deflate" && encoding !== "brotli")
+            throw new Error("invalid compression encoding")
+        if (!(data instanceof Uint8Array))
+            throw new Error("invalid compressed data")
+        let result: Uint8Array
+        try { result = await decompress(encoding, data) }
+        catch (_ex) { throw new Error("failed to decompress data") }
+        return this.decode(this.type === "json" ? new TextDecoder().decode(result) : result)
+    }
 }
 
 /*  Codec trait  */
@@ -109,7 +137,7 @@ export class CodecTrait<T extends APISchema = APISchema> extends OptionsTrait<T>
 
     /*  construct API class  */
     constructor (
-        options: Partial<APIOptions> = {}
+        options: APIOptionsPartial = {}
     ) {
         super(options)
 
@@ -0,0 +1,105 @@
+/*
+**  MQTT+ -- MQTT Communication Patterns
+**  Copyright (c) 2018-2026 Dr. Ralf S. Engelschall <rse@engelschall.com>
+**
+**  Permission is hereby granted, free of charge, to any person obtaining
+**  a copy of this software and associated documentation files (the
+**  "Software"), to deal in the Software without restriction, including
+**  without limitation the rights to use, copy, modify, merge, publish,
+**  distribute, sublicense, and/or sell copies of the Software, and to
+**  permit persons to whom the Software is furnished to do so, subject to
+**  the following conditions:
+**
+**  The above copyright notice and this permission notice shall be included
+**  in all copies or substantial portions of the Software.
+**
+**  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+**  EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+**  MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+**  IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY
+**  CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT,
+**  TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+**  SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+/*  internal requirements  */
+import { APISchema }             from "./mqtt-plus-api"
+import type { Message }          from "./mqtt-plus-msg"
+import { ErrorTrait }            from "./mqtt-plus-error"
+
+/*  the diagnostic category type  */
+export type DiagnosticCategory =
+    "parse" | "validation" | "middleware" | "protocol" | "handler" |
+    "communication" | "subscription" | "publication" | "store"
+
+/*  the diagnostic context type  */
+export interface Diagnostic {
+    category:   DiagnosticCategory
+    topic?:     string
+    message?:   Message
+    peerId?:    string
+}
+
+/*  the diagnostic event types  */
+export interface DiagnosticEvents {
+    "error":            (err: Error, diagnostic: Diagnostic) => void
+    "warning":          (err: Error, diagnostic: Diagnostic) => void
+    "message-rejected": (err: Error, diagnostic: Diagnostic) => void
+}
+
+/*  Diagnostic trait  */
+export class DiagnosticTrait<T extends APISchema = APISchema> extends ErrorTrait<T> {
+    private diagnosticHandlers = new Map<keyof DiagnosticEvents, Set<DiagnosticEvents[keyof DiagnosticEvents]>>()
+
+    /*  attach a handler for diagnostic events  */
+    on<E extends keyof DiagnosticEvents> (event: E, handler: DiagnosticEvents[E]): this {
+        let handlers = this.diagnosticHandlers.get(event)
+        if (handlers === undefined) {
+            handlers = new Set()
+            this.diagnosticHandlers.set(event, handlers)
+        }
+        handlers.add(handler)
+        return this
+    }
+
+    /*  detach a handler for diagnostic events  */
+    off<E extends keyof DiagnosticEvents> (event: E, handler: DiagnosticEvents[E]): this {
+        const handlers = this.diagnosticHandlers.get(event)
+        if (handlers !== undefined) {
+            handlers.delete(handler)
+            if (handlers.size === 0)
+                this.diagnosticHandlers.delete(event)
+        }
+        return this
+    }
+
+    /*  report a diagnostic event to all attached handlers
+        (where failing handlers are reported as errors themselves, in order to not break
+        the calling message processing, and events without any handlers are passed on)  */
+    protected _diagnose (event: keyof DiagnosticEvents, err: Error, diagnostic: Diagnostic): void {
+        const handlers = this.diagnosticHandlers.get(event)
+        if (handlers === undefined) {
+            this._diagnoseUnhandled(event, err, diagnostic)
+            return
+        }
+        for (const handler of [ ...handlers ]) {
+            try {
+                handler(err, diagnostic)
+            }
+            catch (ex: unknown) {
+                const error = ex instanceof Error ? ex : new Error(String(ex))
+                if (event === "error")
+                    this._diagnoseUnhandled("error", error, { category: "handler" })
+                else
+                    this._diagnose("error", error, { category: "handler" })
+            }
+        }
+    }
+
+    /*  report a diagnostic event without any attached handlers
+        (base implementation, logging errors and rejected messages, to be overridden in sub-traits)  */
+    protected _diagnoseUnhandled (event: keyof DiagnosticEvents, err: Error, _diagnostic: Diagnostic): void {
+        if (event !== "warning")
+            console.error(`MQTT+: ${event}: ${err.message}`)
+    }
+}
@@ -0,0 +1,131 @@
+/*
+**  MQTT+ -- MQTT Communication Patterns
+**  Copyright (c) 2018-2026 Dr. Ralf S. Engelschall <rse@engelschall.com>
+**
+**  Permission is hereby granted, free of charge, to any person obtaining
+**  a copy of this software and associated documentation files (the
+**  "Software"), to deal in the Software without restriction, including
+**  without limitation the rights to use, copy, modify, merge, publish,
+**  distribute, sublicense, and/or sell copies of the Software, and to
+**  permit persons to whom the Software is furnished to do so, subject to
+**  the following conditions:
+**
+**  The above copyright notice and this permission notice shall be included
+**  in all copies or substantial portions of the Software.
+**
+**  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+**  EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+**  MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+**  IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY
+**  CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT,
+**  TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+**  SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+/*  internal requirements  */
+import { APISchema,
+    StandardSchemaIssue }       from "./mqtt-plus-api"
+import { ErrorInfo, MsgTrait }  from "./mqtt-plus-msg"
+
+/*  error class for errors raised by remote peers  */
+export class RemoteError extends Error {
+    public code?:        string | number
+    public data?:        any
+    public remoteStack?: string
+    constructor (info: ErrorInfo, cause?: Error) {
+        super(info.message, cause !== undefined ? { cause } : undefined)
+        this.name = info.name
+        if (info.code !== undefined)
+            this.code = info.code
+        if (info.data !== undefined)
+            this.data = info.data
+        if (info.stack !== undefined)
+            this.remoteStack = info.stack
+    }
+}
+
+/*  error class for failed runtime schema validations  */
+export class ValidationError extends Error {
+    public code = "EINVAL"
+    public data?: { issues: { message: string, path?: (string | number)[] }[] }
+    constructor (message: string, options?: { cause?: unknown, issues?: readonly StandardSchemaIssue[] }) {
+        super(message, options?.cause !== undefined ? { cause: options.cause } : undefined)
+        this.name = "ValidationError"
+
+        /*  provide issues in a transferable form  */
+        if (options?.issues !== undefined)
+            this.data = {
+                issues: options.issues.map((issue) => ({
+                    message: issue.message,
+                    ...(issue.path !== undefined ? {
+                        path: issue.path.map((segment) => {
+                            const key = typeof segment === "object" ? segment.key : segment
+                            return typeof key === "symbol" ? key.toString() : key
+                        })
+                    } : {})
+                }))
+            }
+    }
+}
+
+/*  type of custom error classes  */
+export type ErrorClass = new (message: string, options?: { cause?: unknown }) => Error
+
+/*  Error trait  */
+export class ErrorTrait<T extends APISchema = APISchema> extends MsgTrait<T> {
+    private errorClasses = new Map<string, ErrorClass>()
+
+    /*  register a custom error class for rehydrating remote errors  */
+    registerError (name: string, errorClass: ErrorClass): void {
+        this.errorClasses.set(name, errorClass)
+    }
+
+    /*  unregister a custom error class  */
+    unregisterError (name: string): void {
+        this.errorClasses.delete(name)
+    }
+
+    /*  convert an arbitrary thrown value into structured error information
+        (where a cause chain is followed only until it cycles back to an already converted error)  */
+    protected _errorToInfo (err: unknown, seen = new Set<Error>()): ErrorInfo {
+        if (err === undefined || err === null)
+            return { name: "Error", message: "undefined error" }
+        else if (typeof err === "string")
+            return { name: "Error", message: err }
+        else if (err instanceof Error) {
+            const info: ErrorInfo = { name: err.name, message: err.message }
+            const code = (err as any).code
+            if (typeof code === "string" || typeof code === "number")
+                info.code = code
+            const data = (err as any).data
+            if (data !== undefined)
+                info.data = data
+            if (this.options.debug && typeof err.stack === "string")
+                info.stack = err.stack
+            seen.add(err)
+            if (err.cause !== undefined && !(err.cause instanceof Error && seen.has(err.cause)))
+                info.cause = this._errorToInfo(err.cause, seen)
+            return info
+        }
+        else
+            return { name: "Error", message: String(err) }
+    }
+
+    /*  convert structured error information back into an error object  */
+    protected _errorFromInfo (info: ErrorInfo | string): Error {
+        if (typeof info === "string")
+            return new RemoteError({ name: "Error", message: info })
+        const cause = info.cause !== undefined ? this._errorFromInfo(info.cause) : undefined
+        const errorClass = this.errorClasses.get(info.name)
+        if (errorClass === undefined)
+            return new RemoteError(info, cause)
+        const err = new errorClass(info.message, cause !== undefined ? { cause } : undefined) as any
+        if (info.code !== undefined)
+            err.code = info.code
+        if (info.data !== undefined)
+            err.data = info.data
+        if (info.stack !== undefined)
+            err.remoteStack = info.stack
+        return err
+    }
+}
@@ -31,47 +31,71 @@ import { IClientPublishOptions,
 import { nanoid }                    from "nanoid"
 
 /*  internal requirements  */
-import { EventEmission }             from "./mqtt-plus-msg"
+import { Message,
+    PeerEndpoints,
+    EventEmission,
+    EventAcknowledgement }           from "./mqtt-plus-msg"
 import { APISchema,
-    APIEndpointEvent, EventKeys }    from "./mqtt-plus-api"
+    APIEndpointEvent, EventKeys,
+    EventKeysMatching,
+    PatternSegments }                from "./mqtt-plus-api"
+import { patternHasWildcards,
+    patternToFilter, patternMatch,
+    IterableQueue, QueueOverflow }   from "./mqtt-plus-util"
 import type { WithInfo, InfoEvent }  from "./mqtt-plus-info"
-import { BaseTrait }                 from "./mqtt-plus-base"
+import { ValidationTrait }           from "./mqtt-plus-validation"
 
 /*  the subscription result type  */
 export interface Subscription {
     unsubscribe (): Promise<void>
 }
 
+/*  the subscription callback type (for an event name or an event name pattern)  */
+type EventParams<F> = F extends (...args: infer A) => any ? A : never
+type EventCallback<T, P extends string> =
+    [ EventKeysMatching<T, P> ] extends [ never ] ? never : (
+        ...args: [ ...EventParams<T[EventKeysMatching<T, P> & keyof T]>, info: InfoEvent<PatternSegments<P>> ]
+    ) => void | Promise<void>
+
+/*  the event iteration item type (for an event name or an event name pattern)  */
+type EventItem<T, P extends string> =
+    [ EventKeysMatching<T, P> ] extends [ never ] ? never : {
+        params: EventParams<T[EventKeysMatching<T, P> & keyof T]>,
+        info:   InfoEvent<PatternSegments<P>>
+    }
+
 /*  Event Communication Trait  */
-export class EventTrait<T extends APISchema = APISchema> extends BaseTrait<T> {
+export class EventTrait<T extends APISchema = APISchema> extends ValidationTrait<T> {
     /*  internal state  */
-    private subscriptions = new Map<string, WithInfo<APIEndpointEvent, InfoEvent>>()
+    private subscriptions = new Set<{ event: string, callback: WithInfo<APIEndpointEvent, InfoEvent> }>()
+    private ackCallbacks  = new Map<string, { sent: boolean, settle: (err?: Error) => void }>()
+    private iterators     = new Set<IterableQueue<any>>()
 
-    /*  subscribe to an RPC event  */
-    async subscribe<K extends EventKeys<T> & string> (
-        event:    K,
-        callback: WithInfo<T[K], InfoEvent>
+    /*  subscribe to an RPC event (or to all events matching a pattern)  */
+    async subscribe<P extends string> (
+        event:    P,
+        callback: EventCallback<T, P>
     ): Promise<Subscription>
-    async subscribe<K extends EventKeys<T> & string> (
+    async subscribe<P extends string> (
         config: {
-            event:     K,
-            callback:  WithInfo<T[K], InfoEvent>,
+            event:     P,
+            callback:  EventCallback<T, P>,
             options?:  Partial<IClientSubscribeOptions>,
             share?:    string
         }
     ): Promise<Subscription>
-    async subscribe<K extends EventKeys<T> & string> (
-        eventOrConfig: K | {
-            event:     K,
-            callback:  WithInfo<T[K], InfoEvent>,
+    async subscribe<P extends string> (
+        eventOrConfig: P | {
+            event:     P,
+            callback:  EventCallback<T, P>,
             options?:  Partial<IClientSubscribeOptions>,
             share?:    string
         },
         ...args:       any[]
     ): Promise<Subscription> {
         /*  determine actual parameters  */
-        let event:    K
-        let callback: WithInfo<T[K], InfoEvent>
+        let event:    P
+        let callback: EventCallback<T, P>
         let options:  Partial<IClientSubscribeOptions> = {}
         let share:    string | undefined
         if (typeof eventOrConfig === "object" && eventOrConfig !== null) {
@@ -83,20 +107,19 @@ export class EventTrait<T extends APISchema = APISchema> extends BaseTrait<T> {
         }
         else {
             /*  positional API  */
-            event    = eventOrConfig as K
-            callback = args[0] as WithInfo<T[K], InfoEvent>
+            event    = eventOrConfig as P
+            callback = args[0] as EventCallback<T, P>
         }
 
-        /*  sanity check situation  */
-        if (this.subscriptions.has(event))
-            throw new Error(`subscribe: event "${event}" already subscribed`)
-
-        /*  generate the corresponding MQTT topics for broadcast and direct use  */
-        const name = share ? `$share/${share}/${event}` : event
-        const topicB = this.options.topicMake(name, "event-emission")
-        const topicD = this.options.topicMake(name, "event-emission", this.options.id)
+        /*  generate the corresponding MQTT topics for broadcast and direct use
+            (where a multi-level wildcard has to be the last topic segment)  */
+        const filter = patternToFilter(event)
+        const name = share ? `$share/${share}/${filter}` : filter
+        const truncate = (topic: string) => topic.replace(/(^|\/)#\/.*$/, "$1#")
+        const topicB = truncate(this.options.topicMake(name, "event-emission"))
+        const topicD = truncate(this.options.topicMake(name, "event-emission", this.options.id))
 
-        /*  subscribe to MQTT topics  */
+        /*  subscribe to MQTT topics (shared with other subscriptions of the same topics)  */
         await Promise.all([
             this._subscribeTopic(topicB, { qos: 0, ...options }),
             this._subscribeTopic(topicD, { qos: 0, ...options })
@@ -107,15 +130,18 @@ export class EventTrait<T extends APISchema = APISchema> extends BaseTrait<T> {
         })
 
         /*  remember the subscription  */
-        this.subscriptions.set(event, callback as WithInfo<APIEndpointEvent, InfoEvent>)
+        const entry = { event, callback: callback as unknown as WithInfo<APIEndpointEvent, InfoEvent> }
+        this.subscriptions.add(entry)
+        this._endpointsChanged()
 
         /*  provide a subscription for subsequent unsubscribing  */
         const self = this
         const subscription: Subscription = {
             async unsubscribe (): Promise<void> {
-                if (!self.subscriptions.has(event))
+                if (!self.subscriptions.has(entry))
                     throw new Error(`unsubscribe: event "${event}" not subscribed`)
-                self.subscriptions.delete(event)
+                self.subscriptions.delete(entry)
+                self._endpointsChanged()
                 return Promise.all([
                     self._unsubscribeTopic(topicB),
                     self._unsubscribeTopic(topicD)
@@ -125,6 +151,40 @@ export class EventTrait<T extends APISchema = APISchema> extends BaseTrait<T> {
         return subscription
     }
 
+    /*  iterate over the events of an RPC event (or of all events matching a pattern)  */
+    events<P extends string> (
+        event:         P,
+        config: {
+            size?:     number,
+            overflow?: QueueOverflow,
+            options?:  Partial<IClientSubscribeOptions>,
+            share?:    string
+        } = {}
+    ): AsyncIterableIterator<EventItem<T, P>> {
+        /*  provide a bounded queue as the iterator (which unsubscribes on return)  */
+        const queue = new IterableQueue<EventItem<T, P>>(async () => {
+            this.iterators.delete(queue)
+            const s = await subscription.catch(() => undefined)
+            await s?.unsubscribe()
+        }, config.size ?? 100, config.overflow ?? "drop-oldest")
+        this.iterators.add(queue)
+
+        /*  subscribe to event in the background (and stop iterating on failure)  */
+        const subscription = this.subscribe({
+            event,
+            callback: ((...args: any[]) => {
+                const info = args.pop() as InfoEvent
+                queue.push({ params: args, info } as EventItem<T, P>)
+            }) as EventCallback<T, P>,
+            options: config.options,
+            share:   config.share
+        })
+        subscription.catch((err: Error) => {
+            queue.fail(err)
+        })
+        return queue
+    }
+
     /*  emit event ("fire and forget")  */
     emit<K extends EventKeys<T> & string> (
         event:         K,
@@ -180,20 +240,102 @@ export class EventTrait<T extends APISchema = APISchema> extends BaseTrait<T> {
         /*  generate unique request id  */
         const rid = nanoid()
 
-        /*  generate encoded message  */
-        const request = this.msg.makeEventEmission(rid, event, params, this.options.id, receiver)
-        const message = this.codec.encode(request)
+        /*  generate message  */
+        const request = this.msg.makeEventEmission(rid, event, params, undefined, this.options.id, receiver)
 
         /*  generate corresponding MQTT topic  */
         const topic = this.options.topicMake(event, "event-emission", receiver)
 
         /*  produce result  */
-        if (dry)
-            /*  return publish information  */
+        if (dry) {
+            /*  return publish information (without passing through any middlewares)  */
+            const message = this.codec.encode(request)
             return { topic, payload: Buffer.from(message), options: { qos: 0, ...options } }
+        }
         else
             /*  publish message to MQTT topic  */
-            this.mqtt.publish(topic, Buffer.from(message), { qos: 0, ...options })
+            this._publishMessage(topic, request, { qos: 0, ...options })
+    }
+
+    /*  emit event to a particular subscriber and await its processing ("acknowledged")  */
+    emitWithAck<K extends EventKeys<T> & string> (
+        config: {
+            event:     K,
+            params:    Parameters<T[K]>,
+            receiver:  string,
+            options?:  IClientPublishOptions,
+            timeout?:  number
+        }
+    ): Promise<void> {
+        /*  determine actual parameters  */
+        const event    = config.event
+        const params   = config.params
+        const receiver = config.receiver
+        const options  = config.options ?? {}
+        const timeout  = config.timeout ?? this.options.timeout
+
+        /*  generate unique request id  */
+        const rid = nanoid()
+
+        /*  generate message  */
+        const request = this.msg.makeEventEmission(rid, event, params, true, this.options.id, receiver)
+
+        /*  generate corresponding MQTT topic  */
+        const topic = this.options.topicMake(event, "event-emission", receiver)
+
+        /*  subscribe to MQTT acknowledgement topic  */
+        this._responseSubscribe(event, "event-acknowledgement", { qos: options.qos ?? 2 })
+
+        /*  create promise for MQTT acknowledgement handling  */
+        return new Promise<void>((resolve, reject) => {
+            /*  utility function for settling the pending emission (only once)  */
+            let timer: ReturnType<typeof setTimeout> | null = null
+            const settle = (err?: Error) => {
+                if (!this.ackCallbacks.has(rid))
+                    return
+                if (timer !== null)
+                    clearTimeout(timer)
+                this.ackCallbacks.delete(rid)
+                this._responseUnsubscribe(event, "event-acknowledgement")
+                if (err) reject(err)
+                else     resolve()
+            }
+
+            /*  handle acknowledgement and timeout (bounding the time the emission is queued
+                while offline, and restarted once the emission was actually sent)  */
+            const startTimer = () => {
+                if (timer !== null)
+                    clearTimeout(timer)
+                timer = setTimeout(() => {
+                    settle(new Error("communication timeout"))
+                }, timeout)
+            }
+            this.ackCallbacks.set(rid, { sent: false, settle })
+            startTimer()
+            this._whenOnline(() => {
+                const pending = this.ackCallbacks.get(rid)
+                if (pending === undefined)
+                    return
+                pending.sent = true
+                startTimer()
+            })
+
+            /*  publish message to MQTT topic  */
+            this._publishMessage(topic, request, { qos: 2, ...options }, (err?: Error) => {
+                if (err)
+                    settle(err)
+            })
+        })
+    }
+
+    /*  send acknowledgement of an event (for acknowledged emissions only)  */
+    private _acknowledgeEvent (event: EventEmission, err?: unknown) {
+        if (!event.ack || event.sender === undefined || event.receiver !== this.options.id)
+            return
+        const response = this.msg.makeEventAcknowledgement(event.id,
+            err !== undefined ? this._errorToInfo(err) : undefined, this.options.id, event.sender)
+        const responseTopic = this.options.topicMake(event.event, "event-acknowledgement", event.sender)
+        this._publishMessage(responseTopic, response, { qos: 2 })
     }
 
     /*  dispatch message (Event pattern handling)  */
@@ -203,18 +345,92 @@ export class EventTrait<T extends APISchema = APISchema> extends BaseTrait<T> {
         if (topicMatch !== null
             && topicMatch.operation === "event-emission"
             && parsed instanceof EventEmission) {
-            /*  just deliver event  */
+            /*  ignore events directed to other peers (seen through multi-level wildcards)  */
+            if (topicMatch.peerId !== undefined && topicMatch.peerId !== this.options.id)
+                return
+
+            /*  deliver event to all handlers of exactly matching name or matching pattern  */
             const name = parsed.event
-            const handler = this.subscriptions.get(name)
             const params = parsed.params ?? []
-            const info: InfoEvent = { sender: parsed.sender ?? "" }
-            if (parsed.receiver)
-                info.receiver = parsed.receiver
-            Promise.resolve()
-                .then(() => handler?.(...params, info))
-                .catch((err: Error) => {
-                    this.mqtt.emit("error", err)
-                })
+            const deliveries: Promise<void>[] = []
+            for (const { event: pattern, callback: handler } of this.subscriptions) {
+                const segments = pattern === name
+                    ? {}
+                    : patternHasWildcards(pattern) ? patternMatch(pattern, name) : null
+                if (segments === null)
+                    continue
+                const info: InfoEvent = { sender: parsed.sender ?? "", event: name, segments }
+                if (parsed.receiver)
+                    info.receiver = parsed.receiver
+                deliveries.push(Promise.resolve().then(() => handler(...params, info)))
+            }
+
+            /*  report handler failures to the emitter (for acknowledged emissions)
+                or locally (for regular emissions)  */
+            if (parsed.ack && parsed.receiver === this.options.id) {
+                if (deliveries.length === 0)
+                    this._acknowledgeEvent(parsed, new Error(`event "${name}" not subscribed`))
+                else {
+                    Promise.all(deliveries)
+                        .then(() => { this._acknowledgeEvent(parsed) })
+                        .catch((err: unknown) => { this._acknowledgeEvent(parsed, err) })
+                }
+            }
+            else {
+                for (const delivery of deliveries) {
+                    delivery.catch((err: Error) => {
+                        this._diagnose("error", err, { category: "handler", topic, message: parsed, peerId: parsed.sender })
+                    })
+                }
+            }
         }
+        else if (topicMatch !== null
+            && topicMatch.operation === "event-acknowledgement"
+            && topicMatch.peerId === this.options.id
+            && parsed instanceof EventAcknowledgement) {
+            /*  handle event acknowledgement  */
+            const pending = this.ackCallbacks.get(parsed.id)
+            if (pending !== undefined)
+                pending.settle(parsed.error !== undefined ? this._errorFromInfo(parsed.error) : undefined)
+        }
+    }
+
+    /*  collect names of locally offered endpoints (Event pattern handling)  */
+    protected _collectEndpoints (endpoints: PeerEndpoints) {
+        super._collectEndpoints(endpoints)
+        for (const { event } of this.subscriptions)
+            if (!endpoints.events.includes(event))
+                endpoints.events.push(event)
+    }
+
+    /*  settle pending acknowledged emissions on a connection loss (Event pattern handling)
+        (except for emissions still queued while offline, as they are still sent later)  */
+    protected _connectionLost (err: Error) {
+        super._connectionLost(err)
+        for (const { sent, settle } of [ ...this.ackCallbacks.values() ])
+            if (sent)
+                settle(err)
+    }
+
+    /*  settle all pending operations on destruction (Event pattern handling)  */
+    protected async _destroy (err: Error) {
+        for (const { settle } of [ ...this.ackCallbacks.values() ])
+            settle(err)
+        for (const queue of this.iterators)
+            queue.fail(err)
+        this.iterators.clear()
+        this.subscriptions.clear()
+        await super._destroy(err)
+    }
+
+    /*  reject message (Event pattern handling)  */
+    protected _rejectMessage (topic: string, parsed: Message, err: Error) {
+        if (parsed instanceof EventEmission
+            && parsed.ack
+            && parsed.sender !== undefined
+            && parsed.receiver === this.options.id)
+            this._acknowledgeEvent(parsed, err)
+        else
+            super._rejectMessage(topic, parsed, err)
     }
 }
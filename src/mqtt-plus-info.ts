@@ -32,9 +32,21 @@ export interface InfoBase {
 }
 
 /*  specialized info types  */
-export interface InfoEvent    extends InfoBase {}
-export interface InfoService  extends InfoBase {}
+export interface InfoEvent<S extends string = string> extends InfoBase {
+    event:    string
+    segments: Record<S, string>
+}
+export interface InfoState    extends InfoBase {
+    state:    string
+}
+export interface InfoService  extends InfoBase {
+    signal:   AbortSignal
+}
+export interface InfoStream   extends InfoBase {
+    signal:   AbortSignal
+}
 export interface InfoResource extends InfoBase {
+    range?:   { offset: number, length?: number }
     meta?:    Record<string, any>
     stream?:  Readable
     buffer?:  Promise<Uint8Array>
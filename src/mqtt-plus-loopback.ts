@@ -0,0 +1,307 @@
+/*
+**  MQTT+ -- MQTT Communication Patterns
+**  Copyright (c) 2018-2026 Dr. Ralf S. Engelschall <rse@engelschall.com>
+**
+**  Permission is hereby granted, free of charge, to any person obtaining
+**  a copy of this software and associated documentation files (the
+**  "Software"), to deal in the Software without restriction, including
+**  without limitation the rights to use, copy, modify, merge, publish,
+**  distribute, sublicense, and/or sell copies of the Software, and to
+**  permit persons to whom the Software is furnished to do so, subject to
+**  the following conditions:
+**
+**  The above copyright notice and this permission notice shall be included
+**  in all copies or substantial portions of the Software.
+**
+**  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+**  EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+**  MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+**  IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY
+**  CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT,
+**  TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+**  SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+/*  built-in requirements  */
+import { EventEmitter }    from "node:events"
+import { Buffer }          from "node:buffer"
+
+/*  external requirements  */
+import type { IPublishPacket } from "mqtt"
+
+/*  internal requirements  */
+import type { MqttClientAPI } from "./mqtt-plus-base"
+
+/*  the last-will type  */
+interface LoopbackWill {
+    topic:    string
+    payload:  Buffer | string
+    qos?:     0 | 1 | 2
+    retain?:  boolean
+}
+
+/*  the subscription type  */
+interface LoopbackSubscription {
+    filter:   string
+    share?:   string
+    qos:      0 | 1 | 2
+}
+
+/*  defer a function (for simulating the network round-trip)  */
+const defer = (fn: () => void) => { setTimeout(fn, 0) }
+
+/*  match an MQTT topic against an MQTT topic filter  */
+const topicFilterMatch = (filter: string, topic: string) => {
+    const f = filter.split("/")
+    const t = topic.split("/")
+    if (topic.startsWith("$") && (f[0] === "+" || f[0] === "#"))
+        return false
+    for (let i = 0; i < f.length; i++) {
+        if (f[i] === "#")
+            return true
+        if (i >= t.length || (f[i] !== "+" && f[i] !== t[i]))
+            return false
+    }
+    return f.length === t.length
+}
+
+/*  in-memory MQTT client (of the in-memory MQTT broker)  */
+export class LoopbackClient extends EventEmitter implements MqttClientAPI {
+    public connected     = false
+    public disconnecting = false
+    public subscriptions = new Map<string, LoopbackSubscription>()
+    public options: { clientId: string, clean: boolean, will?: LoopbackWill }
+    public will?:   LoopbackWill
+    private queued: (() => void)[] = []
+
+    constructor (
+        private broker: LoopbackBroker,
+        options:        { clientId: string, clean: boolean, will?: LoopbackWill }
+    ) {
+        super()
+        this.options = options
+    }
+
+    /*  subscribe to topics  */
+    subscribe (
+        topic:     string | string[],
+        opts?:     { qos?: 0 | 1 | 2 } | ((err: Error | null, granted?: any[]) => void),
+        callback?: (err: Error | null, granted?: any[]) => void
+    ) {
+        if (typeof opts === "function") {
+            callback = opts
+            opts = {}
+        }
+        const qos     = opts?.qos ?? 0
+        const topics  = Array.isArray(topic) ? topic : [ topic ]
+        const granted = topics.map((topic) => ({ topic, qos }))
+        if (!this.connected) {
+            /*  queue subscription until reconnect (like MQTT.js)  */
+            this.queued.push(() => { this.subscribe(topic, opts, callback) })
+            return this
+        }
+        for (const topic of topics) {
+            const m = topic.match(/^\$share\/([^/]+)\/(.+)$/)
+            const subscription: LoopbackSubscription = m !== null
+                ? { filter: m[2], share: m[1], qos }
+                : { filter: topic, qos }
+            this.subscriptions.set(topic, subscription)
+            if (subscription.share === undefined)
+                this.broker._deliverRetained(this, subscription)
+        }
+        defer(() => { callback?.(null, granted) })
+        return this
+    }
+
+    /*  unsubscribe from topics  */
+    unsubscribe (
+        topic:     string | string[],
+        opts?:     object | ((err?: Error) => void),
+        callback?: (err?: Error) => void
+    ) {
+        if (typeof opts === "function")
+            callback = opts as (err?: Error) => void
+        for (const t of Array.isArray(topic) ? topic : [ topic ])
+            this.subscriptions.delete(t)
+        defer(() => { callback?.() })
+        return this
+    }
+
+    /*  publish a message  */
+    publish (
+        topic:     string,
+        message:   Buffer | string,
+        opts?:     { qos?: 0 | 1 | 2, retain?: boolean } | ((err?: Error) => void),
+        callback?: (err?: Error) => void
+    ) {
+        if (typeof opts === "function") {
+            callback = opts
+            opts = {}
+        }
+        if (!this.connected) {
+            defer(() => { callback?.(new Error("client disconnected")) })
+            return this
+        }
+        this.broker._publish(topic, Buffer.from(message), opts?.qos ?? 0, opts?.retain ?? false)
+        defer(() => { callback?.() })
+        return this
+    }
+
+    /*  (re)connect to the broker  */
+    reconnect () {
+        if (this.connected)
+            return this
+        this.broker._connect(this)
+        this.connected = true
+        this.disconnecting = false
+        defer(() => {
+            /*  take over the last-will (as it is sent with the deferred connect)  */
+            this.will = this.options.will
+            for (const fn of this.queued.splice(0))
+                fn()
+            this.emit("connect", { cmd: "connack", sessionPresent: !this.options.clean })
+        })
+        return this
+    }
+
+    /*  disconnect from the broker (gracefully, without last-will, and like
+        MQTT.js with a "close" event, if the connection was still established)  */
+    end (
+        force?:    boolean | (() => void),
+        opts?:     object | (() => void),
+        callback?: () => void
+    ) {
+        if (typeof force === "function")
+            callback = force
+        else if (typeof opts === "function")
+            callback = opts as () => void
+        const connected = this.connected
+        this.disconnecting = true
+        this.broker._disconnect(this, false)
+        defer(() => {
+            if (connected)
+                this.emit("close")
+            this.emit("end")
+            callback?.()
+        })
+        return this
+    }
+
+    /*  receive a message from the broker  */
+    _receive (topic: string, payload: Buffer, qos: 0 | 1 | 2, retain: boolean) {
+        const packet: IPublishPacket = { cmd: "publish", topic, payload, qos, retain, dup: false }
+        defer(() => {
+            if (this.connected)
+                this.emit("message", topic, payload, packet)
+        })
+    }
+}
+
+/*  in-memory MQTT broker (mainly for testing)  */
+export class LoopbackBroker {
+    private clients  = new Set<LoopbackClient>()
+    private retained = new Map<string, { payload: Buffer, qos: 0 | 1 | 2 }>()
+    private shares   = new Map<string, number>()
+    private counter  = 0
+
+    /*  connect a new MQTT client  */
+    connect (options: {
+        clientId?: string,
+        clean?:    boolean,
+        will?:     LoopbackWill
+    } = {}): LoopbackClient {
+        const client = new LoopbackClient(this, {
+            clientId: options.clientId ?? `loopback-${++this.counter}`,
+            clean:    options.clean    ?? true,
+            will:     options.will
+        })
+        client.reconnect()
+        return client
+    }
+
+    /*  simulate an unexpected connection loss of an MQTT client (with last-will)  */
+    interrupt (client: LoopbackClient) {
+        if (!client.connected)
+            return
+        this._disconnect(client, true)
+        defer(() => {
+            client.emit("offline")
+            client.emit("close")
+        })
+    }
+
+    /*  retrieve the currently retained messages  */
+    retainedMessages (): Map<string, Buffer> {
+        return new Map([ ...this.retained ].map(([ topic, { payload } ]) => [ topic, payload ]))
+    }
+
+    /*  connect an MQTT client (internal)  */
+    _connect (client: LoopbackClient) {
+        this.clients.add(client)
+    }
+
+    /*  disconnect an MQTT client (internal)
+        (where a gracefully disconnected client is forgotten until it reconnects)  */
+    _disconnect (client: LoopbackClient, unexpected: boolean) {
+        client.connected = false
+        if (!unexpected)
+            this.clients.delete(client)
+        if (client.options.clean)
+            client.subscriptions.clear()
+        if (unexpected && client.will !== undefined) {
+            const will = client.will
+            this._publish(will.topic, Buffer.from(will.payload), will.qos ?? 0, will.retain ?? false)
+        }
+    }
+
+    /*  publish a message to all matching subscriptions (internal)  */
+    _publish (topic: string, payload: Buffer, qos: 0 | 1 | 2, retain: boolean) {
+        /*  remember or clear retained message  */
+        if (retain) {
+            if (payload.byteLength === 0)
+                this.retained.delete(topic)
+            else
+                this.retained.set(topic, { payload, qos })
+        }
+
+        /*  determine receivers of regular and shared subscriptions  */
+        const receivers = new Map<LoopbackClient, 0 | 1 | 2>()
+        const groups    = new Map<string, { client: LoopbackClient, qos: 0 | 1 | 2 }[]>()
+        for (const client of this.clients) {
+            if (!client.connected)
+                continue
+            for (const subscription of client.subscriptions.values()) {
+                if (!topicFilterMatch(subscription.filter, topic))
+                    continue
+                const subQos = Math.min(qos, subscription.qos) as 0 | 1 | 2
+                if (subscription.share !== undefined) {
+                    const group = `${subscription.share}/${subscription.filter}`
+                    if (!groups.has(group))
+                        groups.set(group, [])
+                    groups.get(group)!.push({ client, qos: subQos })
+                }
+                else
+                    receivers.set(client, Math.max(receivers.get(client) ?? 0, subQos) as 0 | 1 | 2)
+            }
+        }
+
+        /*  deliver to all regular subscribers  */
+        for (const [ client, subQos ] of receivers)
+            client._receive(topic, payload, subQos, false)
+
+        /*  deliver to one subscriber per shared subscription group (round-robin)  */
+        for (const [ group, members ] of groups) {
+            const n = this.shares.get(group) ?? 0
+            this.shares.set(group, n + 1)
+            const member = members[n % members.length]
+            member.client._receive(topic, payload, member.qos, false)
+        }
+    }
+
+    /*  deliver retained messages to a new subscription (internal)  */
+    _deliverRetained (client: LoopbackClient, subscription: LoopbackSubscription) {
+        for (const [ topic, { payload, qos } ] of this.retained)
+            if (topicFilterMatch(subscription.filter, topic))
+                client._receive(topic, payload, Math.min(qos, subscription.qos) as 0 | 1 | 2, true)
+    }
+}
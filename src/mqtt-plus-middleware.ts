@@ -0,0 +1,223 @@
+/*
+**  MQTT+ -- MQTT Communication Patterns
+**  Copyright (c) 2018-2026 Dr. Ralf S. Engelschall <rse@engelschall.com>
+**
+**  Permission is hereby granted, free of charge, to any person obtaining
+**  a copy of this software and associated documentation files (the
+**  "Software"), to deal in the Software without restriction, including
+**  without limitation the rights to use, copy, modify, merge, publish,
+**  distribute, sublicense, and/or sell copies of the Software, and to
+**  permit persons to whom the Software is furnished to do so, subject to
+**  the following conditions:
+**
+**  The above copyright notice and this permission notice shall be included
+**  in all copies or substantial portions of the Software.
+**
+**  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+**  EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+**  MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+**  IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY
+**  CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT,
+**  TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+**  SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+/*  external requirements  */
+import type { IClientPublishOptions } from "mqtt"
+
+/*  internal requirements  */
+import { APISchema }                  from "./mqtt-plus-api"
+import type { Message }               from "./mqtt-plus-msg"
+import type { InfoBase }              from "./mqtt-plus-info"
+import { ValidationError }            from "./mqtt-plus-error"
+import type { Diagnostic }            from "./mqtt-plus-diagnostic"
+import { OfflineTrait }               from "./mqtt-plus-offline"
+
+/*  the middleware context type  */
+export interface MiddlewareContext {
+    direction: "inbound" | "outbound"
+    topic:     string
+    message:   Message
+    info:      InfoBase
+}
+
+/*  the middleware function type  */
+export type Middleware = (
+    ctx:  MiddlewareContext,
+    next: () => Promise<void>
+) => void | Promise<void>
+
+/*  the middleware usage result type  */
+export interface Usage {
+    unuse (): void
+}
+
+/*  Middleware Trait  */
+export class MiddlewareTrait<T extends APISchema = APISchema> extends OfflineTrait<T> {
+    /*  internal state  */
+    private middlewares = {
+        inbound:  [] as Middleware[],
+        outbound: [] as Middleware[]
+    }
+    private inboundQueue  = Promise.resolve()
+    private outboundQueue = Promise.resolve()
+
+    /*  use a middleware  */
+    use (
+        middleware: Middleware
+    ): Usage
+    use (
+        config: {
+            inbound?:  Middleware,
+            outbound?: Middleware
+        }
+    ): Usage
+    use (
+        middlewareOrConfig: Middleware | {
+            inbound?:  Middleware,
+            outbound?: Middleware
+        }
+    ): Usage {
+        /*  determine actual parameters  */
+        let inbound:  Middleware | undefined
+        let outbound: Middleware | undefined
+        if (typeof middlewareOrConfig === "object" && middlewareOrConfig !== null) {
+            /*  object-based API  */
+            inbound  = middlewareOrConfig.inbound
+            outbound = middlewareOrConfig.outbound
+        }
+        else {
+            /*  positional API  */
+            inbound  = middlewareOrConfig
+            outbound = middlewareOrConfig
+        }
+
+        /*  remember the middlewares  */
+        if (inbound !== undefined)
+            this.middlewares.inbound.push(inbound)
+        if (outbound !== undefined)
+            this.middlewares.outbound.push(outbound)
+
+        /*  provide a usage for subsequent unusing  */
+        const self = this
+        const usage: Usage = {
+            unuse (): void {
+                const remove = (list: Middleware[], middleware?: Middleware) => {
+                    const i = middleware !== undefined ? list.indexOf(middleware) : -1
+                    if (i >= 0)
+                        list.splice(i, 1)
+                }
+                remove(self.middlewares.inbound,  inbound)
+                remove(self.middlewares.outbound, outbound)
+            }
+        }
+        return usage
+    }
+
+    /*  run a chain of middlewares (and finally the terminal operation)  */
+    private async _runMiddlewares (
+        middlewares: Middleware[],
+        ctx:         MiddlewareContext,
+        terminal:    () => void
+    ): Promise<void> {
+        const run = async (i: number): Promise<void> => {
+            if (i >= middlewares.length) {
+                terminal()
+                return
+            }
+            let called = false
+            await middlewares[i](ctx, () => {
+                if (called)
+                    return Promise.reject(new Error("middleware: next() called multiple times"))
+                called = true
+                return run(i + 1)
+            })
+        }
+        return run(0)
+    }
+
+    /*  receive parsed message (through the inbound middlewares)  */
+    protected _receiveMessage (topic: string, parsed: Message): void {
+        /*  short-circuit processing if no middlewares are used  */
+        if (this.middlewares.inbound.length === 0) {
+            super._receiveMessage(topic, parsed)
+            return
+        }
+
+        /*  run middlewares (serialized, in order to retain the message order)  */
+        const ctx: MiddlewareContext = {
+            direction: "inbound",
+            topic,
+            message:   parsed,
+            info:      { sender: parsed.sender ?? "", ...(parsed.receiver ? { receiver: parsed.receiver } : {}) }
+        }
+        const middlewares = this.middlewares.inbound.slice()
+        let delivered = false
+        const run = this.inboundQueue.then(() => {
+            return this._runMiddlewares(middlewares, ctx, () => {
+                delivered = true
+                super._receiveMessage(ctx.topic, ctx.message)
+            })
+        })
+        this.inboundQueue = run.catch(() => {})
+        run.catch((err: Error) => {
+            const diagnostic: Diagnostic = {
+                category: err instanceof ValidationError ? "validation" : "middleware",
+                topic:    ctx.topic,
+                message:  ctx.message,
+                peerId:   ctx.message.sender
+            }
+            if (delivered)
+                this._diagnose("error", err, diagnostic)
+            else {
+                this._diagnose("message-rejected", err, diagnostic)
+                this._rejectMessage(ctx.topic, ctx.message, err)
+            }
+        })
+    }
+
+    /*  encode and publish message (through the outbound middlewares)  */
+    protected _publishMessage (
+        topic:     string,
+        message:   Message,
+        options:   IClientPublishOptions = {},
+        callback?: (err?: Error) => void
+    ): void {
+        /*  short-circuit processing if no middlewares are used  */
+        if (this.middlewares.outbound.length === 0) {
+            super._publishMessage(topic, message, options, callback)
+            return
+        }
+
+        /*  run middlewares (serialized, in order to retain the message order)  */
+        const ctx: MiddlewareContext = {
+            direction: "outbound",
+            topic,
+            message,
+            info:      { sender: message.sender ?? "", ...(message.receiver ? { receiver: message.receiver } : {}) }
+        }
+        const middlewares = this.middlewares.outbound.slice()
+        let published = false
+        const run = this.outboundQueue.then(() => {
+            return this._runMiddlewares(middlewares, ctx, () => {
+                published = true
+                super._publishMessage(ctx.topic, ctx.message, options, callback)
+            })
+        })
+        this.outboundQueue = run.catch(() => {})
+        run.then(() => {
+            /*  a short-circuited message counts as successfully handled  */
+            if (!published)
+                callback?.()
+        }, (err: Error) => {
+            if (!published && callback !== undefined)
+                callback(err)
+            else
+                this._diagnose("error", err, {
+                    category: err instanceof ValidationError ? "validation" : "middleware",
+                    topic:    ctx.topic,
+                    message:  ctx.message
+                })
+        })
+    }
+}
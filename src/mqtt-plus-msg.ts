@@ -29,10 +29,36 @@ import { CodecTrait } from "./mqtt-plus-codec"
 /*  message types  */
 type MessageType =
     | "event-emission"
+    | "event-acknowledgement"
+    | "state-update"
     | "service-call-request"
     | "service-call-response"
+    | "service-call-cancel"
+    | "stream-iteration-request"
+    | "stream-iteration-response"
+    | "stream-iteration-cancel"
     | "resource-transfer-request"
     | "resource-transfer-response"
+    | "resource-transfer-credit"
+    | "peer-presence"
+
+/*  structured error information  */
+export interface ErrorInfo {
+    name:     string
+    message:  string
+    code?:    string | number
+    data?:    any
+    stack?:   string
+    cause?:   ErrorInfo
+}
+
+/*  names of endpoints offered by a peer  */
+export interface PeerEndpoints {
+    events:     string[]
+    services:   string[]
+    streams:    string[]
+    resources:  string[]
+}
 
 /*  base class  */
 class Base {
@@ -50,11 +76,33 @@ export class EventEmission extends Base {
         id:             string,
         public event:   string,
         public params?: any[],
+        public ack?:    boolean,
         sender?:        string,
         receiver?:      string
     ) { super("event-emission", id, sender, receiver) }
 }
 
+/*  event acknowledgement  */
+export class EventAcknowledgement extends Base {
+    constructor (
+        id:             string,
+        public error?:  ErrorInfo | string,
+        sender?:        string,
+        receiver?:      string
+    ) { super("event-acknowledgement", id, sender, receiver) }
+}
+
+/*  state update  */
+export class StateUpdate extends Base {
+    constructor (
+        id:             string,
+        public state:   string,
+        public value?:  any,
+        sender?:        string,
+        receiver?:      string
+    ) { super("state-update", id, sender, receiver) }
+}
+
 /*  service request  */
 export class ServiceCallRequest extends Base {
     constructor (
@@ -71,38 +119,128 @@ export class ServiceCallResponse extends Base {
     constructor (
         id:             string,
         public result?: any,
-        public error?:  string,
+        public error?:  ErrorInfo | string,
         sender?:        string,
         receiver?:      string
     ) { super("service-call-response", id, sender, receiver) }
 }
 
+/*  service cancel  */
+export class ServiceCallCancel extends Base {
+    constructor (
+        id:             string,
+        public service: string,
+        sender?:        string,
+        receiver?:      string
+    ) { super("service-call-cancel", id, sender, receiver) }
+}
+
+/*  stream request  */
+export class StreamIterationRequest extends Base {
+    constructor (
+        id:             string,
+        public stream:  string,
+        public params?: any[],
+        sender?:        string,
+        receiver?:      string
+    ) { super("stream-iteration-request", id, sender, receiver) }
+}
+
+/*  stream response  */
+export class StreamIterationResponse extends Base {
+    constructor (
+        id:             string,
+        public item?:   any,
+        public error?:  ErrorInfo | string,
+        public final?:  boolean,
+        sender?:        string,
+        receiver?:      string
+    ) { super("stream-iteration-response", id, sender, receiver) }
+}
+
+/*  stream cancel  */
+export class StreamIterationCancel extends Base {
+    constructor (
+        id:             string,
+        public stream:  string,
+        sender?:        string,
+        receiver?:      string
+    ) { super("stream-iteration-cancel", id, sender, receiver) }
+}
+
 /*  resource request  */
 export class ResourceTransferRequest extends Base {
     constructor (
-        id:              string,
-        public resource: string,
-        public params?:  any[],
-        sender?:         string,
-        receiver?:       string
+        id:                string,
+        public resource:   string,
+        public params?:    any[],
+        public range?:     { offset: number, length?: number },
+        public encodings?: ("gzip" | "deflate" | "brotli")[],
+        sender?:           string,
+        receiver?:         string
     ) { super("resource-transfer-request", id, sender, receiver) }
 }
 
 /*  resource response  */
 export class ResourceTransferResponse extends Base {
     constructor (
-        id:               string,
-        public resource?: string,
-        public params?:   any[],
-        public chunk?:    Uint8Array,
-        public meta?:     Record<string, any>,
-        public error?:    string,
-        public final?:    boolean,
-        sender?:          string,
-        receiver?:        string
+        id:                string,
+        public resource?:  string,
+        public params?:    any[],
+        public chunk?:     Uint8Array,
+        public meta?:      Record<string, any>,
+        public error?:     string,
+        public final?:     boolean,
+        public seq?:       number,
+        public size?:      number,
+        public integrity?: "sha256" | "crc32",
+        public checksum?:  string,
+        public digest?:    string,
+        public encoding?:  "gzip" | "deflate" | "brotli",
+        sender?:           string,
+        receiver?:         string
     ) { super("resource-transfer-response", id, sender, receiver) }
 }
 
+/*  resource credit (for flow control of chunks)  */
+export class ResourceTransferCredit extends Base {
+    constructor (
+        id:              string,
+        public resource: string,
+        public credit:   number,
+        sender?:         string,
+        receiver?:       string
+    ) { super("resource-transfer-credit", id, sender, receiver) }
+}
+
+/*  peer presence  */
+export class PeerPresence extends Base {
+    constructor (
+        id:                string,
+        public endpoints:  PeerEndpoints,
+        public meta?:      Record<string, any>,
+        public encodings?: ("gzip" | "deflate" | "brotli")[],
+        sender?:           string,
+        receiver?:         string
+    ) { super("peer-presence", id, sender, receiver) }
+}
+
+/*  any message  */
+export type Message =
+    | EventEmission
+    | EventAcknowledgement
+    | StateUpdate
+    | ServiceCallRequest
+    | ServiceCallResponse
+    | ServiceCallCancel
+    | StreamIterationRequest
+    | StreamIterationResponse
+    | StreamIterationCancel
+    | ResourceTransferRequest
+    | ResourceTransferResponse
+    | ResourceTransferCredit
+    | PeerPresence
+
 /*  utility class  */
 class Msg {
     /*  factory for event emission  */
@@ -110,10 +248,32 @@ class Msg {
         id:             string,
         event:          string,
         params?:        any[],
+        ack?:           boolean,
         sender?:        string,
         receiver?:      string
     ): EventEmission {
-        return new EventEmission(id, event, params, sender, receiver)
+        return new EventEmission(id, event, params, ack, sender, receiver)
+    }
+
+    /*  factory for event acknowledgement  */
+    makeEventAcknowledgement (
+        id:             string,
+        error?:         ErrorInfo | string,
+        sender?:        string,
+        receiver?:      string
+    ): EventAcknowledgement {
+        return new EventAcknowledgement(id, error, sender, receiver)
+    }
+
+    /*  factory for state update  */
+    makeStateUpdate (
+        id:             string,
+        state:          string,
+        value?:         any,
+        sender?:        string,
+        receiver?:      string
+    ): StateUpdate {
+        return new StateUpdate(id, state, value, sender, receiver)
     }
 
     /*  factory for service request  */
@@ -131,22 +291,67 @@ class Msg {
     makeServiceCallResponse (
         id:             string,
         result?:        any,
-        error?:         string,
+        error?:         ErrorInfo | string,
         sender?:        string,
         receiver?:      string
     ): ServiceCallResponse {
         return new ServiceCallResponse(id, result, error, sender, receiver)
     }
 
+    /*  factory for service cancel  */
+    makeServiceCallCancel (
+        id:             string,
+        service:        string,
+        sender?:        string,
+        receiver?:      string
+    ): ServiceCallCancel {
+        return new ServiceCallCancel(id, service, sender, receiver)
+    }
+
+    /*  factory for stream request  */
+    makeStreamIterationRequest (
+        id:             string,
+        stream:         string,
+        params?:        any[],
+        sender?:        string,
+        receiver?:      string
+    ): StreamIterationRequest {
+        return new StreamIterationRequest(id, stream, params, sender, receiver)
+    }
+
+    /*  factory for stream response  */
+    makeStreamIterationResponse (
+        id:             string,
+        item?:          any,
+        error?:         ErrorInfo | string,
+        final?:         boolean,
+        sender?:        string,
+        receiver?:      string
+    ): StreamIterationResponse {
+        return new StreamIterationResponse(id, item, error, final, sender, receiver)
+    }
+
+    /*  factory for stream cancel  */
+    makeStreamIterationCancel (
+        id:             string,
+        stream:         string,
+        sender?:        string,
+        receiver?:      string
+    ): StreamIterationCancel {
+        return new StreamIterationCancel(id, stream, sender, receiver)
+    }
+
     /*  factory for resource request  */
     makeResourceTransferRequest (
         id:             string,
         resource:       string,
         params?:        any[],
+        range?:         { offset: number, length?: number },
+        encodings?:     ("gzip" | "deflate" | "brotli")[],
         sender?:        string,
         receiver?:      string
     ): ResourceTransferRequest {
-        return new ResourceTransferRequest(id, resource, params, sender, receiver)
+        return new ResourceTransferRequest(id, resource, params, range, encodings, sender, receiver)
     }
 
     /*  factory for resource response  */
@@ -158,19 +363,44 @@ class Msg {
         meta?:          Record<string, any>,
         error?:         string,
         final?:         boolean,
+        seq?:           number,
+        size?:          number,
+        integrity?:     "sha256" | "crc32",
+        checksum?:      string,
+        digest?:        string,
+        encoding?:      "gzip" | "deflate" | "brotli",
         sender?:        string,
         receiver?:      string
     ): ResourceTransferResponse {
-        return new ResourceTransferResponse(id, resource, params, chunk, meta, error, final, sender, receiver)
+        return new ResourceTransferResponse(id, resource, params, chunk, meta, error, final,
+            seq, size, integrity, checksum, digest, encoding, sender, receiver)
+    }
+
+    /*  factory for resource credit  */
+    makeResourceTransferCredit (
+        id:             string,
+        resource:       string,
+        credit:         number,
+        sender?:        string,
+        receiver?:      string
+    ): ResourceTransferCredit {
+        return new ResourceTransferCredit(id, resource, credit, sender, receiver)
+    }
+
+    /*  factory for peer presence  */
+    makePeerPresence (
+        id:             string,
+        endpoints:      PeerEndpoints,
+        meta?:          Record<string, any>,
+        encodings?:     ("gzip" | "deflate" | "brotli")[],
+        sender?:        string,
+        receiver?:      string
+    ): PeerPresence {
+        return new PeerPresence(id, endpoints, meta, encodings, sender, receiver)
     }
 
     /*  parse any object into typed object  */
-    parse (obj: any):
-        EventEmission            |
-        ServiceCallRequest       |
-        ServiceCallResponse      |
-        ResourceTransferRequest  |
-        ResourceTransferResponse {
+    parse (obj: any): Message {
         if (typeof obj !== "object" || obj === null)
             throw new Error("invalid argument: not an object")
 
@@ -187,19 +417,48 @@ class Msg {
         /*  utility predicates for validation  */
         const anyFieldsExcept = (obj: object, allowed: string[]) =>
             Object.keys(obj).some((key) => !allowed.includes(key))
+        const validEncoding = (encoding: unknown) =>
+            encoding === "gzip" || encoding === "deflate" || encoding === "brotli"
         const validParams = (obj: any) =>
             obj.params === undefined || (typeof obj.params === "object" && Array.isArray(obj.params))
+        const validErrorInfo = (info: any): boolean =>
+            typeof info === "object" && info !== null
+            && typeof info.name === "string"
+            && typeof info.message === "string"
+            && (info.code  === undefined || typeof info.code  === "string" || typeof info.code === "number")
+            && (info.stack === undefined || typeof info.stack === "string")
+            && (info.cause === undefined || validErrorInfo(info.cause))
+        const validError = (obj: any) =>
+            obj.error === undefined || typeof obj.error === "string" || validErrorInfo(obj.error)
 
         /*  dispatch according to type indication by field  */
         if (obj.type === "event-emission") {
             /*  detect and parse event emission  */
             if (typeof obj.event !== "string")
                 throw new Error("invalid EventEmission object: \"event\" field must be a string")
-            if (anyFieldsExcept(obj, [ "type", "id", "event", "params", "sender", "receiver" ]))
+            if (anyFieldsExcept(obj, [ "type", "id", "event", "params", "ack", "sender", "receiver" ]))
                 throw new Error("invalid EventEmission object: contains unknown fields")
             if (!validParams(obj))
                 throw new Error("invalid EventEmission object: \"params\" field must be an array")
-            return this.makeEventEmission(obj.id, obj.event, obj.params, obj.sender, obj.receiver)
+            if (obj.ack !== undefined && typeof obj.ack !== "boolean")
+                throw new Error("invalid EventEmission object: \"ack\" field must be a boolean")
+            return this.makeEventEmission(obj.id, obj.event, obj.params, obj.ack, obj.sender, obj.receiver)
+        }
+        else if (obj.type === "event-acknowledgement") {
+            /*  detect and parse event acknowledgement  */
+            if (anyFieldsExcept(obj, [ "type", "id", "error", "sender", "receiver" ]))
+                throw new Error("invalid EventAcknowledgement object: contains unknown fields")
+            if (!validError(obj))
+                throw new Error("invalid EventAcknowledgement object: \"error\" field must be a string or error object")
+            return this.makeEventAcknowledgement(obj.id, obj.error, obj.sender, obj.receiver)
+        }
+        else if (obj.type === "state-update") {
+            /*  detect and parse state update  */
+            if (typeof obj.state !== "string")
+                throw new Error("invalid StateUpdate object: \"state\" field must be a string")
+            if (anyFieldsExcept(obj, [ "type", "id", "state", "value", "sender", "receiver" ]))
+                throw new Error("invalid StateUpdate object: contains unknown fields")
+            return this.makeStateUpdate(obj.id, obj.state, obj.value, obj.sender, obj.receiver)
         }
         else if (obj.type === "service-call-request") {
             /*  detect and parse service request  */
@@ -215,17 +474,65 @@ class Msg {
             /*  detect and parse service response success  */
             if (anyFieldsExcept(obj, [ "type", "id", "result", "error", "sender", "receiver" ]))
                 throw new Error("invalid ServiceCallResponse object: contains unknown fields")
+            if (!validError(obj))
+                throw new Error("invalid ServiceCallResponse object: \"error\" field must be a string or error object")
             return this.makeServiceCallResponse(obj.id, obj.result, obj.error, obj.sender, obj.receiver)
         }
+        else if (obj.type === "service-call-cancel") {
+            /*  detect and parse service cancel  */
+            if (typeof obj.service !== "string")
+                throw new Error("invalid ServiceCallCancel object: \"service\" field must be a string")
+            if (anyFieldsExcept(obj, [ "type", "id", "service", "sender", "receiver" ]))
+                throw new Error("invalid ServiceCallCancel object: contains unknown fields")
+            return this.makeServiceCallCancel(obj.id, obj.service, obj.sender, obj.receiver)
+        }
+        else if (obj.type === "stream-iteration-request") {
+            /*  detect and parse stream request  */
+            if (typeof obj.stream !== "string")
+                throw new Error("invalid StreamIterationRequest object: \"stream\" field must be a string")
+            if (anyFieldsExcept(obj, [ "type", "id", "stream", "params", "sender", "receiver" ]))
+                throw new Error("invalid StreamIterationRequest object: contains unknown fields")
+            if (!validParams(obj))
+                throw new Error("invalid StreamIterationRequest object: \"params\" field must be an array")
+            return this.makeStreamIterationRequest(obj.id, obj.stream, obj.params, obj.sender, obj.receiver)
+        }
+        else if (obj.type === "stream-iteration-response") {
+            /*  detect and parse stream response  */
+            if (!validError(obj))
+                throw new Error("invalid StreamIterationResponse object: \"error\" field must be a string or error object")
+            if (obj.final !== undefined && typeof obj.final !== "boolean")
+                throw new Error("invalid StreamIterationResponse object: \"final\" field must be a boolean")
+            if (anyFieldsExcept(obj, [ "type", "id", "item", "error", "final", "sender", "receiver" ]))
+                throw new Error("invalid StreamIterationResponse object: contains unknown fields")
+            return this.makeStreamIterationResponse(obj.id, obj.item, obj.error, obj.final, obj.sender, obj.receiver)
+        }
+        else if (obj.type === "stream-iteration-cancel") {
+            /*  detect and parse stream cancel  */
+            if (typeof obj.stream !== "string")
+                throw new Error("invalid StreamIterationCancel object: \"stream\" field must be a string")
+            if (anyFieldsExcept(obj, [ "type", "id", "stream", "sender", "receiver" ]))
+                throw new Error("invalid StreamIterationCancel object: contains unknown fields")
+            return this.makeStreamIterationCancel(obj.id, obj.stream, obj.sender, obj.receiver)
+        }
         else if (obj.type === "resource-transfer-request") {
             /*  detect and parse resource request  */
             if (typeof obj.resource !== "string")
                 throw new Error("invalid ResourceTransferRequest object: \"resource\" field must be a string")
-            if (anyFieldsExcept(obj, [ "type", "id", "resource", "params", "sender", "receiver" ]))
+            if (anyFieldsExcept(obj, [ "type", "id", "resource", "params", "range", "encodings", "sender", "receiver" ]))
                 throw new Error("invalid ResourceTransferRequest object: contains unknown fields")
             if (!validParams(obj))
                 throw new Error("invalid ResourceTransferRequest object: \"params\" field must be an array")
-            return this.makeResourceTransferRequest(obj.id, obj.resource, obj.params, obj.sender, obj.receiver)
+            if (obj.range !== undefined && (typeof obj.range !== "object" || obj.range === null
+                || typeof obj.range.offset !== "number" || !Number.isInteger(obj.range.offset) || obj.range.offset < 0
+                || (obj.range.length !== undefined && (typeof obj.range.length !== "number"
+                    || !Number.isInteger(obj.range.length) || obj.range.length < 0))
+                || anyFieldsExcept(obj.range, [ "offset", "length" ])))
+                throw new Error("invalid ResourceTransferRequest object: \"range\" field must be an object with non-negative integer \"offset\" and \"length\" fields")
+            if (obj.encodings !== undefined && (!Array.isArray(obj.encodings)
+                || obj.encodings.some((encoding: unknown) => !validEncoding(encoding))))
+                throw new Error("invalid ResourceTransferRequest object: \"encodings\" field must be an array of \"gzip\", \"deflate\" or \"brotli\"")
+            return this.makeResourceTransferRequest(obj.id, obj.resource, obj.params,
+                obj.range, obj.encodings, obj.sender, obj.receiver)
         }
         else if (obj.type === "resource-transfer-response") {
             if (obj.resource !== undefined && typeof obj.resource !== "string")
@@ -238,13 +545,54 @@ class Msg {
                 throw new Error("invalid ResourceTransferResponse object: \"error\" field must be a string")
             if (obj.final !== undefined && typeof obj.final !== "boolean")
                 throw new Error("invalid ResourceTransferResponse object: \"final\" field must be a boolean")
+            if (obj.seq !== undefined && (typeof obj.seq !== "number" || !Number.isInteger(obj.seq) || obj.seq < 0))
+                throw new Error("invalid ResourceTransferResponse object: \"seq\" field must be a non-negative integer")
+            if (obj.size !== undefined && (typeof obj.size !== "number" || !Number.isInteger(obj.size) || obj.size < 0))
+                throw new Error("invalid ResourceTransferResponse object: \"size\" field must be a non-negative integer")
+            if (obj.integrity !== undefined && obj.integrity !== "sha256" && obj.integrity !== "crc32")
+                throw new Error("invalid ResourceTransferResponse object: \"integrity\" field must be \"sha256\" or \"crc32\"")
+            if (obj.checksum !== undefined && typeof obj.checksum !== "string")
+                throw new Error("invalid ResourceTransferResponse object: \"checksum\" field must be a string")
+            if (obj.digest !== undefined && typeof obj.digest !== "string")
+                throw new Error("invalid ResourceTransferResponse object: \"digest\" field must be a string")
+            if (obj.encoding !== undefined && !validEncoding(obj.encoding))
+                throw new Error("invalid ResourceTransferResponse object: \"encoding\" field must be \"gzip\", \"deflate\" or \"brotli\"")
             if (!validParams(obj))
                 throw new Error("invalid ResourceTransferResponse object: \"params\" field must be an array")
             if (anyFieldsExcept(obj, [ "type", "id", "resource", "params",
-                "chunk", "meta", "error", "final", "sender", "receiver" ]))
+                "chunk", "meta", "error", "final", "seq", "size", "integrity", "checksum", "digest",
+                "encoding", "sender", "receiver" ]))
                 throw new Error("invalid ResourceTransferResponse object: contains unknown fields")
             return this.makeResourceTransferResponse(obj.id, obj.resource, obj.params,
-                obj.chunk, obj.meta, obj.error, obj.final, obj.sender, obj.receiver)
+                obj.chunk, obj.meta, obj.error, obj.final, obj.seq, obj.size,
+                obj.integrity, obj.checksum, obj.digest, obj.encoding, obj.sender, obj.receiver)
+        }
+        else if (obj.type === "resource-transfer-credit") {
+            /*  detect and parse resource credit  */
+            if (typeof obj.resource !== "string")
+                throw new Error("invalid ResourceTransferCredit object: \"resource\" field must be a string")
+            if (typeof obj.credit !== "number" || !Number.isInteger(obj.credit) || obj.credit < 0)
+                throw new Error("invalid ResourceTransferCredit object: \"credit\" field must be a non-negative integer")
+            if (anyFieldsExcept(obj, [ "type", "id", "resource", "credit", "sender", "receiver" ]))
+                throw new Error("invalid ResourceTransferCredit object: contains unknown fields")
+            return this.makeResourceTransferCredit(obj.id, obj.resource, obj.credit, obj.sender, obj.receiver)
+        }
+        else if (obj.type === "peer-presence") {
+            /*  detect and parse peer presence  */
+            const validNames = (names: any) =>
+                Array.isArray(names) && names.every((name) => typeof name === "string")
+            if (typeof obj.endpoints !== "object" || obj.endpoints === null
+                || !validNames(obj.endpoints.events) || !validNames(obj.endpoints.services)
+                || !validNames(obj.endpoints.streams) || !validNames(obj.endpoints.resources))
+                throw new Error("invalid PeerPresence object: \"endpoints\" field must be an object of name arrays")
+            if (obj.meta !== undefined && (typeof obj.meta !== "object" || obj.meta === null || Array.isArray(obj.meta)))
+                throw new Error("invalid PeerPresence object: \"meta\" field must be an object")
+            if (obj.encodings !== undefined && (!Array.isArray(obj.encodings)
+                || obj.encodings.some((encoding: unknown) => !validEncoding(encoding))))
+                throw new Error("invalid PeerPresence object: \"encodings\" field must be an array of \"gzip\", \"deflate\" or \"brotli\"")
+            if (anyFieldsExcept(obj, [ "type", "id", "endpoints", "meta", "encodings", "sender", "receiver" ]))
+                throw new Error("invalid PeerPresence object: contains unknown fields")
+            return this.makePeerPresence(obj.id, obj.endpoints, obj.meta, obj.encodings, obj.sender, obj.receiver)
         }
         else
             throw new Error("invalid object: not of any known type")
@@ -0,0 +1,157 @@
+/*
+**  MQTT+ -- MQTT Communication Patterns
+**  Copyright (c) 2018-2026 Dr. Ralf S. Engelschall <rse@engelschall.com>
+**
+**  Permission is hereby granted, free of charge, to any person obtaining
+**  a copy of this software and associated documentation files (the
+**  "Software"), to deal in the Software without restriction, including
+**  without limitation the rights to use, copy, modify, merge, publish,
+**  distribute, sublicense, and/or sell copies of the Software, and to
+**  permit persons to whom the Software is furnished to do so, subject to
+**  the following conditions:
+**
+**  The above copyright notice and this permission notice shall be included
+**  in all copies or substantial portions of the Software.
+**
+**  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+**  EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+**  MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+**  IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY
+**  CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT,
+**  TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+**  SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+/*  external requirements  */
+import type { IClientPublishOptions } from "mqtt"
+
+/*  internal requirements  */
+import { APISchema }                 from "./mqtt-plus-api"
+import type { APIOptionsPartial,
+    OfflineEntry }                   from "./mqtt-plus-options"
+import { BaseTrait }                 from "./mqtt-plus-base"
+import type { MqttClientAPI }        from "./mqtt-plus-base"
+
+/*  Offline Trait  */
+export class OfflineTrait<T extends APISchema = APISchema> extends BaseTrait<T> {
+    /*  internal state  */
+    private offlineQueue: { entry: OfflineEntry, callback?: (err?: Error) => void }[] = []
+    private offlineWaiters: (() => void)[] = []
+    private offlinePersisting = Promise.resolve()
+    private _offlineHandler: () => void
+
+    /*  construct API class  */
+    constructor (
+        mqtt: MqttClientAPI | null,
+        options: APIOptionsPartial = {}
+    ) {
+        super(mqtt, options)
+
+        /*  flush the offline queue on (re)connects
+            (after the base trait has restored the subscriptions)  */
+        this._offlineHandler = () => { this._offlineFlush() }
+        this.mqtt.on("connect", this._offlineHandler)
+
+        /*  restore entries of a previous process from the persistent store  */
+        const store = this.options.offline.store
+        if (store !== undefined) {
+            store.load().then((entries) => {
+                this.offlineQueue.unshift(...entries.map((entry) => ({ entry })))
+                this._offlineTrim()
+                this._offlineFlush()
+            }).catch((err: Error) => {
+                this._diagnose("error", err, { category: "store" })
+            })
+        }
+    }
+
+    /*  settle all pending operations on destruction (Offline handling)
+        (the persistent store keeps the queued entries for the next process)  */
+    protected async _destroy (err: Error) {
+        this.mqtt.off("connect", this._offlineHandler)
+        for (const { callback } of this.offlineQueue.splice(0))
+            callback?.(err)
+        this.offlineWaiters = []
+        await this.offlinePersisting
+        await super._destroy(err)
+    }
+
+    /*  determine whether outgoing messages are currently queued  */
+    private _offlineQueueing () {
+        return this.options.offline.mode === "queue"
+            && (this.mqtt.connected === false || this.offlineQueue.length > 0)
+    }
+
+    /*  run a function once outgoing messages are no longer queued
+        (used for deferring response timeouts until the request was actually sent)  */
+    protected _whenOnline (fn: () => void): void {
+        if (this._offlineQueueing())
+            this.offlineWaiters.push(fn)
+        else
+            fn()
+    }
+
+    /*  publish encoded payload to MQTT topic (or handle it according to offline policy)  */
+    protected _publishEncoded (
+        topic:     string,
+        payload:   Uint8Array | string,
+        options:   IClientPublishOptions = {},
+        callback?: (err?: Error) => void
+    ): void {
+        /*  pass-through in case we are online and nothing is queued
+            (or we are just using the fake proxy of the MQTT client)  */
+        if (this.mqtt.connected !== false && this.offlineQueue.length === 0) {
+            super._publishEncoded(topic, payload, options, callback)
+            return
+        }
+
+        /*  handle according to offline policy  */
+        const mode = this.options.offline.mode
+        if (mode === "fail")
+            callback?.(new Error("client offline"))
+        else if (mode === "drop")
+            callback?.()
+        else {
+            this.offlineQueue.push({ entry: { topic, payload, options, time: Date.now() }, callback })
+            this._offlineTrim()
+            this._offlinePersist()
+        }
+    }
+
+    /*  drop the oldest entries in case the offline queue exceeds its maximum size  */
+    private _offlineTrim () {
+        const excess = this.offlineQueue.length - this.options.offline.size
+        if (excess > 0)
+            for (const { callback } of this.offlineQueue.splice(0, excess))
+                callback?.(new Error("offline queue overflow"))
+    }
+
+    /*  persist the offline queue (sequentially, to not overtake previous saves)  */
+    private _offlinePersist () {
+        const store = this.options.offline.store
+        if (store === undefined)
+            return
+        const entries = this.offlineQueue.map((item) => item.entry)
+        this.offlinePersisting = this.offlinePersisting
+            .then(() => store.save(entries))
+            .catch((err: Error) => { this._diagnose("error", err, { category: "store" }) })
+    }
+
+    /*  flush the offline queue (by publishing all non-expired entries)  */
+    private _offlineFlush () {
+        if (this.mqtt.connected === false)
+            return
+        const items = this.offlineQueue.splice(0)
+        const now   = Date.now()
+        for (const { entry, callback } of items) {
+            if (now - entry.time > this.options.offline.age)
+                callback?.(new Error("offline queue expired"))
+            else
+                super._publishEncoded(entry.topic, entry.payload, entry.options, callback)
+        }
+        if (items.length > 0)
+            this._offlinePersist()
+        for (const fn of this.offlineWaiters.splice(0))
+            fn()
+    }
+}
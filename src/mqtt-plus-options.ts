@@ -24,39 +24,124 @@
 
 /*  external requirements  */
 import { nanoid }      from "nanoid"
+import type { IClientPublishOptions } from "mqtt"
 
 /*  internal requirements  */
-import { APISchema }   from "./mqtt-plus-api"
+import { APISchema,
+    APIRuntimeSchema }    from "./mqtt-plus-api"
 
 /*  MQTT topic matching  */
 type TopicMatching        = { name: string, operation: string, peerId?: string }
 export type TopicMake     = (name: string, operation: string, peerId?: string) => string
 export type TopicMatch    = (topic: string) => TopicMatching | null
 
+/*  retry policy type  */
+export interface RetryPolicy {
+    attempts:                   number
+    delay:                      number
+    factor:                     number
+    maxDelay:                   number
+    jitter:                     number
+    retryable:                  (err: Error) => boolean
+}
+
+/*  offline queue entry type  */
+export interface OfflineEntry {
+    topic:                      string
+    payload:                    Uint8Array | string
+    options:                    IClientPublishOptions
+    time:                       number
+}
+
+/*  offline queue store type  */
+export interface OfflineStore {
+    load ():                    Promise<OfflineEntry[]>
+    save (entries: OfflineEntry[]): Promise<void>
+}
+
+/*  offline policy type  */
+export interface OfflinePolicy {
+    mode:                       "queue" | "drop" | "fail"
+    size:                       number
+    age:                        number
+    store?:                     OfflineStore
+}
+
+/*  integrity policy type  */
+export interface IntegrityPolicy {
+    algorithm:                  "none" | "sha256" | "crc32"
+    chunks:                     boolean
+}
+
+/*  compression policy type  */
+export interface CompressionPolicy {
+    algorithm:                  "none" | "gzip" | "deflate" | "brotli"
+    threshold:                  number
+}
+
 /*  API option type  */
 export interface APIOptions {
     id:                         string
     codec:                      "cbor" | "json"
     timeout:                    number
+    debug:                      boolean
     chunkSize:                  number
+    chunkWindow:                number
+    integrity:                  IntegrityPolicy
+    compression:                CompressionPolicy
+    retry:                      RetryPolicy
+    offline:                    OfflinePolicy
+    schema?:                    APIRuntimeSchema
     topicMake:                  TopicMake
     topicMatch:                 TopicMatch
 }
 
+/*  API option type (as supplied by the caller)  */
+export type APIOptionsPartial = Partial<Omit<APIOptions, "retry" | "offline" | "integrity" | "compression"> & {
+    retry:       Partial<RetryPolicy>,
+    offline:     Partial<OfflinePolicy>,
+    integrity:   Partial<IntegrityPolicy>,
+    compression: Partial<CompressionPolicy>
+}>
+
 /*  Options trait  */
 export class OptionsTrait<T extends APISchema = APISchema> {
     protected options: APIOptions
 
     /*  construct API class  */
     constructor (
-        options: Partial<APIOptions> = {}
+        options: APIOptionsPartial = {}
     ) {
         /*  determine options and provide defaults  */
+        const retry: RetryPolicy = {
+            attempts:  1,
+            delay:     250,
+            factor:    2,
+            maxDelay:  10 * 1000,
+            jitter:    0.2,
+            retryable: (err) => err.message === "communication timeout" || err.message === "connection lost"
+                || err.message.startsWith("missing resource chunk #")
+        }
+        const offline: OfflinePolicy = {
+            mode:      "fail",
+            size:      1000,
+            age:       Infinity
+        }
+        const integrity: IntegrityPolicy = {
+            algorithm: "none",
+            chunks:    false
+        }
+        const compression: CompressionPolicy = {
+            algorithm: "none",
+            threshold: Infinity
+        }
         this.options = {
-            id:        nanoid(),
-            codec:     "cbor",
-            timeout:   10 * 1000,
-            chunkSize: 16 * 1024,
+            id:          nanoid(),
+            codec:       "cbor",
+            timeout:     10 * 1000,
+            debug:       false,
+            chunkSize:   16 * 1024,
+            chunkWindow: 16,
             topicMake: (name, protocol, peerId) => {
                 return `${name}/${protocol}/${peerId ?? "any"}`
             },
@@ -68,7 +153,11 @@ export class OptionsTrait<T extends APISchema = APISchema> {
                     peerId:    m[3] === "any" ? undefined : m[3]
                 } : null
             },
-            ...options
+            ...options,
+            retry:       { ...retry,       ...options.retry },
+            offline:     { ...offline,     ...options.offline },
+            integrity:   { ...integrity,   ...options.integrity },
+            compression: { ...compression, ...options.compression }
         }
     }
 }
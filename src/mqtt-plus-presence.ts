@@ -0,0 +1,261 @@
+/*
+**  MQTT+ -- MQTT Communication Patterns
+**  Copyright (c) 2018-2026 Dr. Ralf S. Engelschall <rse@engelschall.com>
+**
+**  Permission is hereby granted, free of charge, to any person obtaining
+**  a copy of this software and associated documentation files (the
+**  "Software"), to deal in the Software without restriction, including
+**  without limitation the rights to use, copy, modify, merge, publish,
+**  distribute, sublicense, and/or sell copies of the Software, and to
+**  permit persons to whom the Software is furnished to do so, subject to
+**  the following conditions:
+**
+**  The above copyright notice and this permission notice shall be included
+**  in all copies or substantial portions of the Software.
+**
+**  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+**  EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+**  MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+**  IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY
+**  CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT,
+**  TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+**  SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+/*  built-in requirements  */
+import { Buffer }                    from "node:buffer"
+
+/*  external requirements  */
+import { nanoid }                    from "nanoid"
+
+/*  internal requirements  */
+import { APISchema }                 from "./mqtt-plus-api"
+import { PeerPresence,
+    PeerEndpoints }                  from "./mqtt-plus-msg"
+import { patternHasWildcards,
+    patternMatch }                   from "./mqtt-plus-util"
+import type { Subscription }         from "./mqtt-plus-event"
+import { ResourceTrait }             from "./mqtt-plus-resource"
+
+/*  the peer information type  */
+export interface Peer extends PeerEndpoints {
+    id:         string
+    meta:       Record<string, any>
+}
+
+/*  the peer change callback type  */
+type PeerCallback = (change: "join" | "update" | "leave", peer: Peer) => void
+
+/*  Presence Trait  */
+export class PresenceTrait<T extends APISchema = APISchema> extends ResourceTrait<T> {
+    /*  internal state  */
+    private presence: {
+        meta:      Record<string, any>,
+        topic:     string,
+        filter:    string,
+        onConnect: () => void
+    } | null = null
+    private peerList      = new Map<string, Peer>()
+    private peerMessages  = new Map<string, string>()
+    private peerCallbacks = new Set<PeerCallback>()
+
+    /*  generate the last-will for clearing the presence of this peer on unexpected disconnects
+        (to be passed to MQTT.connect(), as the broker receives the last-will on connect only)  */
+    presenceWill (): { topic: string, payload: Buffer, qos: 1, retain: true } {
+        const topic = this.options.topicMake("mqtt-plus", "peer-presence", this.options.id)
+        return { topic, payload: Buffer.alloc(0), qos: 1, retain: true }
+    }
+
+    /*  join the set of present peers (by announcing this peer and discovering the others)  */
+    async join (config: { meta?: Record<string, any> } = {}): Promise<void> {
+        /*  sanity check situation  */
+        if (this.presence !== null)
+            throw new Error("join: already joined")
+
+        /*  generate the corresponding MQTT topics for this and all peers  */
+        const topic  = this.options.topicMake("mqtt-plus", "peer-presence", this.options.id)
+        const filter = this.options.topicMake("mqtt-plus", "peer-presence", "+")
+
+        /*  warn if the MQTT client was not connected with our last-will
+            (as then peers going offline unexpectedly are not detected)  */
+        if (this.mqtt.options?.will?.topic !== topic)
+            this._diagnose("warning", new Error("join: presence last-will not configured on connect"),
+                { category: "publication", topic })
+
+        /*  re-announce this peer on reconnects (as the last-will might have cleared it)  */
+        const onConnect = () => {
+            this._announce().catch((err: Error) => {
+                this._diagnose("error", err, { category: "publication", topic })
+            })
+        }
+        this.mqtt.on("connect", onConnect)
+        this.presence = { meta: config.meta ?? {}, topic, filter, onConnect }
+
+        /*  subscribe to MQTT topic of all peers and announce this peer  */
+        try {
+            await this._subscribeTopic(filter, { qos: 1 })
+            await this._announce()
+        }
+        catch (err) {
+            this._forgetPresence()
+            this._unsubscribeTopic(filter).catch(() => {})
+            throw err
+        }
+    }
+
+    /*  leave the set of present peers  */
+    async leave (): Promise<void> {
+        /*  sanity check situation  */
+        if (this.presence === null)
+            throw new Error("leave: not joined")
+
+        /*  clear the announcement of this peer and stop discovering the others  */
+        const { topic, filter } = this.presence
+        this._forgetPresence()
+        await new Promise<void>((resolve, reject) => {
+            this._publishEncoded(topic, Buffer.alloc(0), { qos: 1, retain: true }, (err?: Error) => {
+                if (err) reject(err)
+                else     resolve()
+            })
+        })
+        await this._unsubscribeTopic(filter)
+    }
+
+    /*  determine the currently present peers (optionally only those offering a particular endpoint)  */
+    peers (
+        filter: { event?: string, service?: string, stream?: string, resource?: string } = {}
+    ): Peer[] {
+        const offers = (patterns: string[], name: string) =>
+            patterns.some((pattern) => pattern === name
+                || (patternHasWildcards(pattern) && patternMatch(pattern, name) !== null))
+        return [ ...this.peerList.values() ]
+            .filter((peer) =>
+                (filter.event    === undefined || offers(peer.events, filter.event))
+                && (filter.service  === undefined || peer.services.includes(filter.service))
+                && (filter.stream   === undefined || peer.streams.includes(filter.stream))
+                && (filter.resource === undefined || peer.resources.includes(filter.resource)))
+            .map((peer) => structuredClone(peer))
+    }
+
+    /*  watch for peers joining, updating or leaving  */
+    watchPeers (callback: PeerCallback): Subscription {
+        this.peerCallbacks.add(callback)
+        const self = this
+        return {
+            async unsubscribe (): Promise<void> {
+                if (!self.peerCallbacks.has(callback))
+                    throw new Error("unsubscribe: peers not watched")
+                self.peerCallbacks.delete(callback)
+            }
+        }
+    }
+
+    /*  destroy API class (by default with leaving the set of present peers gracefully,
+        unless the connection is lost, where the leave message would only be queued forever)  */
+    async destroy (options: { leave?: boolean } = {}): Promise<void> {
+        if (this.presence !== null) {
+            if ((options.leave ?? true) && this.mqtt.connected !== false)
+                await this.leave().catch(() => {})
+            else
+                this._forgetPresence()
+        }
+        this.peerCallbacks.clear()
+        await super.destroy()
+    }
+
+    /*  announce this peer (as a retained message)  */
+    private _announce (): Promise<void> {
+        if (this.presence === null)
+            return Promise.resolve()
+        const endpoints: PeerEndpoints = { events: [], services: [], streams: [], resources: [] }
+        this._collectEndpoints(endpoints)
+        const message = this.msg.makePeerPresence(nanoid(), endpoints, this.presence.meta,
+            this._acceptedEncodings(), this.options.id)
+        const topic = this.presence.topic
+        return new Promise<void>((resolve, reject) => {
+            this._publishMessage(topic, message, { qos: 1, retain: true }, (err?: Error) => {
+                if (err) reject(err)
+                else     resolve()
+            })
+        })
+    }
+
+    /*  forget the presence state  */
+    private _forgetPresence () {
+        if (this.presence === null)
+            return
+        this.mqtt.off("connect", this.presence.onConnect)
+        this.presence = null
+        this.peerList.clear()
+        this.peerMessages.clear()
+    }
+
+    /*  notify watchers about a peer change  */
+    private _notifyPeers (change: "join" | "update" | "leave", peer: Peer) {
+        for (const callback of this.peerCallbacks) {
+            Promise.resolve()
+                .then(() => callback(change, structuredClone(peer)))
+                .catch((err: Error) => {
+                    this._diagnose("error", err, { category: "handler", peerId: peer.id })
+                })
+        }
+    }
+
+    /*  notify about a change of locally offered endpoints (Presence handling)  */
+    protected _endpointsChanged () {
+        super._endpointsChanged()
+        this._announce().catch((err: Error) => {
+            this._diagnose("error", err, { category: "publication", topic: this.presence?.topic })
+        })
+    }
+
+    /*  determine the ids of the peers known to offer a service (Presence handling)  */
+    protected _servicePeers (service: string) {
+        if (this.presence === null)
+            return super._servicePeers(service)
+        return [ ...this.peerList.values() ]
+            .filter((peer) => peer.services.includes(service))
+            .map((peer) => peer.id)
+    }
+
+    /*  dispatch message (Presence handling)  */
+    protected _dispatchMessage (topic: string, parsed: any) {
+        super._dispatchMessage(topic, parsed)
+        const topicMatch = this.options.topicMatch(topic)
+        if (this.presence !== null
+            && topicMatch !== null
+            && topicMatch.operation === "peer-presence"
+            && topicMatch.peerId !== undefined
+            && parsed instanceof PeerPresence) {
+            /*  ignore an announcement delivered again (e.g. after restoring subscriptions)  */
+            if (this.peerMessages.get(topicMatch.peerId) === parsed.id)
+                return
+            this.peerMessages.set(topicMatch.peerId, parsed.id)
+
+            /*  remember peer (and the encodings it accepts) and notify watchers  */
+            const peer: Peer = { id: topicMatch.peerId, meta: parsed.meta ?? {}, ...parsed.endpoints }
+            this._peerAccepts(peer.id, parsed.encodings ?? [])
+            const change = this.peerList.has(peer.id) ? "update" : "join"
+            this.peerList.set(peer.id, peer)
+            this._notifyPeers(change, peer)
+        }
+    }
+
+    /*  dispatch clearing (Presence handling)  */
+    protected _dispatchClear (topic: string) {
+        super._dispatchClear(topic)
+        const topicMatch = this.options.topicMatch(topic)
+        if (this.presence !== null
+            && topicMatch !== null
+            && topicMatch.operation === "peer-presence"
+            && topicMatch.peerId !== undefined) {
+            const peer = this.peerList.get(topicMatch.peerId)
+            if (peer !== undefined) {
+                this.peerList.delete(peer.id)
+                this.peerMessages.delete(peer.id)
+                this._peerAccepts(peer.id)
+                this._notifyPeers("leave", peer)
+            }
+        }
+    }
+}
@@ -23,7 +23,6 @@
 */
 
 /*  built-in requirements  */
-import { Buffer }                                                 from "node:buffer"
 import { Readable }                                               from "node:stream"
 
 /*  external requirements  */
@@ -31,11 +30,16 @@ import { IClientPublishOptions, IClientSubscribeOptions }         from "mqtt"
 import { nanoid }                                                 from "nanoid"
 
 /*  internal requirements  */
-import { streamToBuffer, sendBufferAsChunks, sendStreamAsChunks } from "./mqtt-plus-util"
-import { ResourceTransferRequest, ResourceTransferResponse }      from "./mqtt-plus-msg"
+import { streamToBuffer, sendBufferAsChunks, sendStreamAsChunks, sliceStream,
+    retryDelay, CreditWindow, CreditReceiver, ChunkSequencer,
+    ChunkStamper }                                                from "./mqtt-plus-util"
+import { Message, PeerEndpoints,
+    ResourceTransferRequest, ResourceTransferResponse,
+    ResourceTransferCredit }                                      from "./mqtt-plus-msg"
 import { APISchema, ResourceKeys, APIEndpointResource }           from "./mqtt-plus-api"
 import type { WithInfo, InfoResource }                            from "./mqtt-plus-info"
-import { ServiceTrait }                                           from "./mqtt-plus-service"
+import { StreamTrait }                                            from "./mqtt-plus-stream"
+import type { RetryPolicy }                                       from "./mqtt-plus-options"
 
 /*  the provisioning result type  */
 export interface Provisioning {
@@ -43,20 +47,29 @@ export interface Provisioning {
 }
 
 /*  Resource Communication Trait  */
-export class ResourceTrait<T extends APISchema = APISchema> extends ServiceTrait<T> {
+export class ResourceTrait<T extends APISchema = APISchema> extends StreamTrait<T> {
     /*  resource provisioning state  */
-    private provisionings = new Map<string, WithInfo<APIEndpointResource, InfoResource>>()
+    private provisionings = new Map<string, { callback: WithInfo<APIEndpointResource, InfoResource> }[]>()
     private callbacks     = new Map<string, {
         resource: string,
         callback: (
             error: Error               | undefined,
             chunk: Uint8Array          | undefined,
             meta:  Record<string, any> | undefined,
-            final: boolean             | undefined
-        ) => void
+            final: boolean             | undefined,
+            sender?: string
+        ) => void,
+        sequencer: ChunkSequencer<ResourceTransferResponse>,
+        sent:      boolean,
+        provider:  string | undefined
     }>()
-    private pushStreams   = new Map<string, Readable>()
-    private pushTimers    = new Map<string, ReturnType<typeof setTimeout>>()
+    private pushTransfers = new Map<string, {
+        flow:      CreditReceiver | null,
+        sequencer: ChunkSequencer<ResourceTransferResponse>,
+        timer:     ReturnType<typeof setTimeout> | null
+    }>()
+    private sendStreams   = new Set<Readable>()
+    private creditWindows = new Map<string, CreditWindow>()
 
     /*  provision a resource (for both fetch requests and pushed data)  */
     async provision<K extends ResourceKeys<T> & string> (
@@ -98,46 +111,54 @@ export class ResourceTrait<T extends APISchema = APISchema> extends ServiceTrait
             callback = args[0] as WithInfo<T[K], InfoResource>
         }
 
-        /*  sanity check situation  */
-        if (this.provisionings.has(resource))
-            throw new Error(`provision: resource "${resource}" already provisioned`)
-
         /*  generate the corresponding MQTT topics for broadcast and direct use  */
         const name = share ? `$share/${share}/${resource}` : resource
         const topicReqB = this.options.topicMake(name, "resource-transfer-request")
         const topicReqD = this.options.topicMake(name, "resource-transfer-request", this.options.id)
         const topicResB = this.options.topicMake(name, "resource-transfer-response")
         const topicResD = this.options.topicMake(name, "resource-transfer-response", this.options.id)
+        const topicCreD = this.options.topicMake(resource, "resource-transfer-credit", this.options.id)
 
-        /*  subscribe to MQTT topics  */
+        /*  subscribe to MQTT topics (shared with other provisionings of the same topics)  */
         await Promise.all([
             this._subscribeTopic(topicReqB, { qos: 2, ...options }),
             this._subscribeTopic(topicReqD, { qos: 2, ...options }),
             this._subscribeTopic(topicResB, { qos: 2, ...options }),
-            this._subscribeTopic(topicResD, { qos: 2, ...options })
+            this._subscribeTopic(topicResD, { qos: 2, ...options }),
+            this._subscribeTopic(topicCreD, { qos: 2 })
         ]).catch((err: Error) => {
             this._unsubscribeTopic(topicReqB).catch(() => {})
             this._unsubscribeTopic(topicReqD).catch(() => {})
             this._unsubscribeTopic(topicResB).catch(() => {})
             this._unsubscribeTopic(topicResD).catch(() => {})
+            this._unsubscribeTopic(topicCreD).catch(() => {})
             throw err
         })
 
-        /*  remember the provisioning  */
-        this.provisionings.set(resource, callback as WithInfo<APIEndpointResource, InfoResource>)
+        /*  remember the provisioning (in addition to any existing ones)  */
+        const entry = { callback: callback as WithInfo<APIEndpointResource, InfoResource> }
+        const entries = this.provisionings.get(resource) ?? []
+        this.provisionings.set(resource, [ ...entries, entry ])
+        this._endpointsChanged()
 
         /*  provide a provisioning object for subsequent unprovisioning  */
         const self = this
         const provisioning: Provisioning = {
             async unprovision (): Promise<void> {
-                if (!self.provisionings.has(resource))
+                const entries = self.provisionings.get(resource) ?? []
+                if (!entries.includes(entry))
                     throw new Error(`unprovision: resource "${resource}" not provisioned`)
-                self.provisionings.delete(resource)
+                if (entries.length > 1)
+                    self.provisionings.set(resource, entries.filter((e) => e !== entry))
+                else
+                    self.provisionings.delete(resource)
+                self._endpointsChanged()
                 return Promise.all([
                     self._unsubscribeTopic(topicReqB),
                     self._unsubscribeTopic(topicReqD),
                     self._unsubscribeTopic(topicResB),
-                    self._unsubscribeTopic(topicResD)
+                    self._unsubscribeTopic(topicResD),
+                    self._unsubscribeTopic(topicCreD)
                 ]).then(() => {})
             }
         }
@@ -160,7 +181,7 @@ export class ResourceTrait<T extends APISchema = APISchema> extends ServiceTrait
             options?:  IClientPublishOptions
         }
     ): Promise<void>
-    push<K extends ResourceKeys<T> & string> (
+    async push<K extends ResourceKeys<T> & string> (
         resourceOrConfig: K | {
             resource:  K,
             data:      Readable | Uint8Array,
@@ -197,38 +218,60 @@ export class ResourceTrait<T extends APISchema = APISchema> extends ServiceTrait
         /*  generate unique request id  */
         const rid = nanoid()
 
-        /*  generate corresponding MQTT topic  */
-        const topic = this.options.topicMake(resource, "resource-transfer-response", receiver)
-
-        /*  track whether first chunk has been sent (for meta)  */
-        let firstChunk = true
-
-        /*  callback for creating and sending a chunk message  */
-        const sendChunk = (chunk: Uint8Array | undefined, error: string | undefined, final: boolean) => {
-            const chunkMeta = firstChunk ? meta : undefined
-            firstChunk = false
+        /*  generate corresponding MQTT topics  */
+        const topic       = this.options.topicMake(resource, "resource-transfer-response", receiver)
+        const creditTopic = this.options.topicMake(resource, "resource-transfer-credit", this.options.id)
+
+        /*  establish flow control (with credits granted by the receivers, but enforced
+            only once any receiver granted credit, as a push might have no receivers at all)  */
+        await this._subscribeTopic(creditTopic, { qos: 2 })
+        const credit = new CreditWindow(this.options.chunkWindow, true)
+        this.creditWindows.set(rid, credit)
+
+        /*  callback for creating and sending a chunk message (once credit is available),
+            with sequence number, total size, integrity checksums and (optionally) compressed data
+            (where compression is used only if the receiving peer announced to accept it)  */
+        const stamper = new ChunkStamper(this.options.integrity.algorithm, this.options.integrity.chunks,
+            this._peerCompression(receiver))
+        const sendChunk = async (chunk: Uint8Array | undefined, error: string | undefined, final: boolean) => {
+            if (chunk !== undefined)
+                await credit.acquire(this.options.timeout)
+            const s = await stamper.stamp(chunk, final, error)
             const request = this.msg.makeResourceTransferResponse(rid, resource,
-                params, chunk, chunkMeta, error, final, this.options.id, receiver)
-            const message = this.codec.encode(request)
-            this.mqtt.publish(topic, Buffer.from(message), { qos: 2, ...options })
+                params, s.chunk, s.seq === 0 ? meta : undefined, error, final,
+                s.seq, s.size, s.integrity, s.checksum, s.digest, s.encoding, this.options.id, receiver)
+            await new Promise<void>((resolve, reject) => {
+                this._publishMessage(topic, request, { qos: 2, ...options }, (err?: Error) => {
+                    if (err) reject(err)
+                    else     resolve()
+                })
+            })
         }
 
-        /*  iterate over all chunks of the buffer  */
-        return new Promise((resolve, reject) => {
-            if (streamOrBuffer instanceof Readable) {
-                /*  attach to the readable  */
-                sendStreamAsChunks(
-                    streamOrBuffer, this.options.chunkSize, sendChunk,
-                    () => resolve(),
-                    (err) => reject(err)
-                )
-            }
-            else if (streamOrBuffer instanceof Uint8Array) {
-                /*  split buffer into chunks and send them  */
-                sendBufferAsChunks(streamOrBuffer, this.options.chunkSize, sendChunk)
-                resolve()
-            }
-        })
+        /*  send all chunks of the stream or buffer
+            (with the stream tracked for destruction)  */
+        const readable = streamOrBuffer instanceof Readable ? streamOrBuffer : undefined
+        if (readable !== undefined)
+            this.sendStreams.add(readable)
+        try {
+            if (readable !== undefined)
+                await sendStreamAsChunks(readable, this.options.chunkSize, sendChunk)
+            else
+                await sendBufferAsChunks(streamOrBuffer as Uint8Array, this.options.chunkSize, sendChunk)
+        }
+        catch (err: unknown) {
+            /*  inform the receivers about the failure  */
+            const message = err instanceof Error ? err.message : String(err)
+            await sendChunk(undefined, message, true).catch(() => {})
+            throw err
+        }
+        finally {
+            if (readable !== undefined)
+                this.sendStreams.delete(readable)
+            stamper.close()
+            this.creditWindows.delete(rid)
+            this._unsubscribeTopic(creditTopic).catch(() => {})
+        }
     }
 
     /*  fetch resource  */
@@ -245,7 +288,10 @@ export class ResourceTrait<T extends APISchema = APISchema> extends ServiceTrait
             resource:  K,
             params:    Parameters<T[K]>,
             receiver?: string,
-            options?:  IClientPublishOptions
+            options?:  IClientPublishOptions,
+            retry?:    Partial<RetryPolicy>,
+            range?:    { offset: number, length?: number },
+            resume?:   boolean
         }
     ): Promise<{
         stream:        Readable,
@@ -257,7 +303,10 @@ export class ResourceTrait<T extends APISchema = APISchema> extends ServiceTrait
             resource:  K,
             params:    Parameters<T[K]>,
             receiver?: string,
-            options?:  IClientPublishOptions
+            options?:  IClientPublishOptions,
+            retry?:    Partial<RetryPolicy>,
+            range?:    { offset: number, length?: number },
+            resume?:   boolean
         },
         ...args:       any[]
     ): Promise<{
@@ -270,12 +319,18 @@ export class ResourceTrait<T extends APISchema = APISchema> extends ServiceTrait
         let receiver:  string | undefined
         let options:   IClientPublishOptions = {}
         let params:    Parameters<T[K]>
+        let retry:     RetryPolicy = this.options.retry
+        let range:     { offset: number, length?: number } | undefined
+        let resume     = false
         if (typeof resourceOrConfig === "object" && resourceOrConfig !== null) {
             /*  object-based API  */
             resource = resourceOrConfig.resource
             params   = resourceOrConfig.params
             receiver = resourceOrConfig.receiver
             options  = resourceOrConfig.options ?? {}
+            retry    = { ...retry, ...resourceOrConfig.retry }
+            range    = resourceOrConfig.range
+            resume   = resourceOrConfig.resume ?? false
         }
         else {
             /*  positional API  */
@@ -283,15 +338,26 @@ export class ResourceTrait<T extends APISchema = APISchema> extends ServiceTrait
             params   = args as Parameters<T[K]>
         }
 
-        /*  generate unique request id for the request  */
-        const requestId = nanoid()
+        /*  request id of the current attempt (regenerated on each attempt, in order to ignore
+            late chunks of a previous attempt, as provisioners do not de-duplicate requests anyway)  */
+        let requestId = ""
 
         /*  subscribe to stream response topic  */
         const responseTopic = this.options.topicMake(resource, "resource-transfer-response", this.options.id)
         await this._subscribeTopic(responseTopic, { qos: 2 })
 
-        /*  establish readable for buffering received chunks  */
-        const stream = new Readable({ read (_size) {} })
+        /*  establish readable for buffering received chunks
+            (with flow control by granting credits to the providing peer)  */
+        let provider: string | undefined
+        const flow = new CreditReceiver(1, this.options.chunkWindow, (credit) => {
+            if (provider === undefined || !this.callbacks.has(requestId))
+                return
+            const message = this.msg.makeResourceTransferCredit(requestId, resource, credit, this.options.id, provider)
+            const creditTopic = this.options.topicMake(resource, "resource-transfer-credit", provider)
+            this._publishMessage(creditTopic, message, { qos: 2 })
+            startTimer()
+        })
+        const stream = flow.readables[0]
 
         /*  create promise for collecting stream chunks  */
         const buffer = streamToBuffer(stream)
@@ -305,6 +371,24 @@ export class ResourceTrait<T extends APISchema = APISchema> extends ServiceTrait
         /*  define timer  */
         let timer: ReturnType<typeof setTimeout> | null = null
 
+        /*  utility function for (re)starting the inactivity timer
+            (not running while all granted chunks arrived and the stream is not consumed)  */
+        const startTimer = () => {
+            if (timer !== null)
+                clearTimeout(timer)
+            timer = (awaiting || flow.pending()) ? setTimeout(() => {
+                timer = null
+                const missing = this.callbacks.get(requestId)?.sequencer.missing()
+                const err = new Error(missing !== undefined
+                    ? `missing resource chunk #${missing}`
+                    : "communication timeout")
+                if (!retryable(err)) {
+                    cleanup(true)
+                    flow.destroy(err)
+                }
+            }, this.options.timeout) : null
+        }
+
         /*  utility function for cleanup  */
         const cleanup = (resolveMeta = false) => {
             if (timer !== null) {
@@ -317,52 +401,111 @@ export class ResourceTrait<T extends APISchema = APISchema> extends ServiceTrait
                 metaResolve?.(undefined)
         }
 
-        /*  start timeout handler  */
-        timer = setTimeout(() => {
-            cleanup(true)
-            stream.destroy(new Error("communication timeout"))
-        }, this.options.timeout)
+        /*  utility function for retrying the request (if allowed and before any data arrived)
+            or for resuming it (if requested and after data arrived)  */
+        let attempt = 0
+        const retryable = (err: Error) => {
+            if (this.destroyed || (!firstChunk && !resume) || attempt >= retry.attempts || !retry.retryable(err))
+                return false
+            this._diagnose("warning", err, { category: "communication", topic, peerId: receiver })
+            if (timer !== null)
+                clearTimeout(timer)
+            this.callbacks.delete(requestId)
+            timer = setTimeout(() => {
+                timer = null
+                send()
+            }, retryDelay(retry, attempt))
+            return true
+        }
 
-        /*  register stream handler to collect chunks  */
+        /*  stream handler to collect chunks
+            (where a resumed transfer has to continue the same resource version)  */
         let firstChunk = true
-        this.callbacks.set(requestId, {
+        let awaiting   = true
+        let received   = 0
+        let etag: unknown
+        const handler = {
             resource,
             callback: (
                 error: Error               | undefined,
                 chunk: Uint8Array          | undefined,
                 meta:  Record<string, any> | undefined,
-                final: boolean             | undefined
+                final: boolean             | undefined,
+                sender?: string
             ) => {
+                if (error !== undefined && retryable(error))
+                    return
+                if (error === undefined && awaiting && !firstChunk && etag !== undefined && meta?.etag !== etag)
+                    error = new Error("resource changed")
+                awaiting = false
                 const wasFirstChunk = firstChunk
                 if (firstChunk) {
                     firstChunk = false
+                    etag = meta?.etag
                     metaResolve?.(meta)
                 }
                 if (error !== undefined) {
                     cleanup(!wasFirstChunk)
-                    stream.destroy(error)
+                    flow.destroy(error)
                 }
                 else {
-                    if (chunk !== undefined)
-                        stream.push(chunk)
-                    if (final) {
+                    provider ??= sender
+                    received += chunk?.byteLength ?? 0
+                    if (final)
                         cleanup()
-                        stream.push(null)
-                    }
+                    flow.push(chunk, final)
+                    if (!final)
+                        startTimer()
                 }
             }
-        })
-
-        /*  generate encoded message  */
-        const request = this.msg.makeResourceTransferRequest(requestId,
-            resource, params, this.options.id, receiver)
-        const message = this.codec.encode(request)
+        }
 
         /*  generate corresponding MQTT topic  */
         const topic = this.options.topicMake(resource, "resource-transfer-request", receiver)
 
-        /*  publish message to MQTT topic  */
-        this.mqtt.publish(topic, Buffer.from(message), { qos: 2, ...options })
+        /*  utility function for sending the request  */
+        const send = () => {
+            attempt++
+            awaiting = true
+            provider = undefined
+            flow.restart()
+
+            /*  register stream handler under a fresh request id  */
+            requestId = nanoid()
+            this.callbacks.set(requestId, {
+                ...handler,
+                sequencer: new ChunkSequencer(this.options.chunkWindow * 2),
+                sent:      false,
+                provider:  receiver
+            })
+
+            /*  start timeout handler (bounding the time the request is queued while offline,
+                and restarted once the request was actually sent)  */
+            const rid = requestId
+            startTimer()
+            this._whenOnline(() => {
+                const pending = this.callbacks.get(rid)
+                if (requestId !== rid || pending === undefined)
+                    return
+                pending.sent = true
+                startTimer()
+            })
+
+            /*  generate message (for the remaining range on resumption, and with
+                the supported encodings announced only if compression is enabled locally)  */
+            const offset = (range?.offset ?? 0) + received
+            const length = range?.length !== undefined ? range.length - received : undefined
+            const request = this.msg.makeResourceTransferRequest(requestId, resource, params,
+                offset > 0 || length !== undefined ? (length !== undefined ? { offset, length } : { offset }) : undefined,
+                this._acceptedEncodings(),
+                this.options.id, receiver)
+
+            /*  publish message to MQTT topic  */
+            this._publishMessage(topic, request, { qos: 2, ...options })
+        }
+
+        /*  send request (initial attempt)  */
+        send()
 
         /*  produce result  */
         return { stream, buffer, meta }
@@ -378,8 +521,8 @@ export class ResourceTrait<T extends APISchema = APISchema> extends ServiceTrait
             && topicMatch.operation === "resource-transfer-request"
             && parsed instanceof ResourceTransferRequest) {
             const name = parsed.resource
-            const handler = this.provisionings.get(name)
-            if (handler !== undefined) {
+            const handlers = this.provisionings.get(name)
+            if (handlers !== undefined) {
                 /*  determine information  */
                 const requestId = parsed.id
                 const resource  = parsed.resource
@@ -389,127 +532,297 @@ export class ResourceTrait<T extends APISchema = APISchema> extends ServiceTrait
                 const info: InfoResource = { sender }
                 if (receiver)
                     info.receiver = receiver
+                if (parsed.range)
+                    info.range = { ...parsed.range }
 
                 /*  generate corresponding MQTT topic  */
                 const responseTopic = this.options.topicMake(resource, "resource-transfer-response", sender)
 
-                /*  callback for creating and sending a chunk message  */
-                let firstChunk = true
-                const sendChunk = (chunk: Uint8Array | undefined, error: string | undefined, final: boolean) => {
-                    const chunkMeta = firstChunk ? info.meta : undefined
-                    firstChunk = false
-                    const request = this.msg.makeResourceTransferResponse(requestId,
-                        resource, undefined, chunk, chunkMeta, error, final, this.options.id, sender)
-                    const message = Buffer.from(this.codec.encode(request))
-                    this.mqtt.publish(responseTopic, message, { qos: 2 })
+                /*  establish flow control (with credits granted by the fetching peer)  */
+                const credit = new CreditWindow(this.options.chunkWindow)
+                this.creditWindows.set(requestId, credit)
+
+                /*  callback for creating and sending a chunk message (once credit is available),
+                    with sequence number, total size, integrity checksums and (optionally) compressed data
+                    (where compression is used only if the fetching peer announced to accept it)  */
+                this._peerAccepts(sender, parsed.encodings ?? [])
+                const stamper = new ChunkStamper(this.options.integrity.algorithm, this.options.integrity.chunks,
+                    this._peerCompression(sender))
+                const sendChunk = async (chunk: Uint8Array | undefined, error: string | undefined, final: boolean) => {
+                    if (chunk !== undefined)
+                        await credit.acquire(this.options.timeout)
+                    const s = await stamper.stamp(chunk, final, error)
+                    const request = this.msg.makeResourceTransferResponse(requestId, resource, undefined,
+                        s.chunk, s.seq === 0 ? info.meta : undefined, error, final,
+                        s.seq, s.size, s.integrity, s.checksum, s.digest, s.encoding, this.options.id, sender)
+                    await new Promise<void>((resolve, reject) => {
+                        this._publishMessage(responseTopic, request, { qos: 2 }, (err?: Error) => {
+                            if (err) reject(err)
+                            else     resolve()
+                        })
+                    })
                 }
 
-                /*  call the handler callback  */
+                /*  call the handler callbacks in order until one of them provides data
+                    (allowing multiple provisionings to handle different parameter shapes)  */
+                const provide = async () => {
+                    for (const { callback: handler } of handlers) {
+                        await handler(...params, info)
+                        if (info.stream instanceof Readable || info.buffer instanceof Promise)
+                            break
+                    }
+                }
+                let readable: Readable | undefined
                 Promise.resolve()
-                    .then(() => handler(...params, info))
+                    .then(() => provide())
                     .then(async () => {
-                        /*  handle Readable stream result  */
-                        if (info.stream instanceof Readable)
-                            sendStreamAsChunks(info.stream, this.options.chunkSize, sendChunk,
-                                () => {}, (err) => sendChunk(undefined, err.message, true))
+                        /*  determine range still to be applied
+                            (unless the callback already provided just the requested range)  */
+                        const range = info.range
+
+                        /*  handle Readable stream result (tracked for destruction)  */
+                        if (info.stream instanceof Readable) {
+                            readable = info.stream
+                            this.sendStreams.add(readable)
+                            await sendStreamAsChunks(range !== undefined
+                                ? sliceStream(readable, range.offset, range.length)
+                                : readable, this.options.chunkSize, sendChunk)
+                        }
 
                         /*  handle Buffer result  */
-                        else if (info.buffer instanceof Promise)
-                            sendBufferAsChunks(await info.buffer, this.options.chunkSize, sendChunk)
+                        else if (info.buffer instanceof Promise) {
+                            let buffer = await info.buffer
+                            if (range !== undefined)
+                                buffer = buffer.subarray(range.offset, range.length !== undefined
+                                    ? range.offset + range.length
+                                    : undefined)
+                            await sendBufferAsChunks(buffer, this.options.chunkSize, sendChunk)
+                        }
 
                         /*  fail  */
                         else
-                            throw new Error("handler did not provide data via info.stream or info.buffer field")
+                            throw new Error("no handler provided data via info.stream or info.buffer field")
                     })
                     .catch((err: Error) => {
                         /*  send error  */
-                        sendChunk(undefined, err.message, true)
+                        return sendChunk(undefined, err.message, true)
+                    })
+                    .catch((err: Error) => {
+                        this._diagnose("error", err, {
+                            category: "publication", topic: responseTopic, message: parsed, peerId: sender })
+                    })
+                    .finally(() => {
+                        if (readable !== undefined)
+                            this.sendStreams.delete(readable)
+                        stamper.close()
+                        this.creditWindows.delete(requestId)
                     })
             }
         }
 
-        /*  handle resource response (on server-side for push)  */
+        /*  handle resource credit (on sending side for push and fetch)  */
+        else if (topicMatch !== null
+            && topicMatch.operation === "resource-transfer-credit"
+            && topicMatch.peerId === this.options.id
+            && parsed instanceof ResourceTransferCredit)
+            this.creditWindows.get(parsed.id)?.grant(parsed.sender ?? "", parsed.credit)
+
+        /*  handle resource response (on client-side for fetch and on server-side for push)  */
         else if (topicMatch !== null
             && topicMatch.operation === "resource-transfer-response"
             && parsed instanceof ResourceTransferResponse) {
-            /*  determine information  */
-            const requestId = parsed.id
-            const error = parsed.error
-            const meta  = parsed.meta
-            const final = parsed.final
-            const chunk = (parsed.chunk !== undefined && !(parsed.chunk instanceof Uint8Array))
-                ? Uint8Array.from(parsed.chunk) : parsed.chunk
+            /*  normalize chunk (as decoded by codecs without binary data support)  */
+            if (parsed.chunk !== undefined && !(parsed.chunk instanceof Uint8Array))
+                parsed.chunk = Uint8Array.from(parsed.chunk)
 
-            /*  case 1: response on fetch  */
+            /*  case 1: response on fetch (with chunks passed on in sequence)  */
+            const requestId = parsed.id
             const handler = this.callbacks.get(requestId)
-            if (handler !== undefined)
-                handler.callback(error ? new Error(error) : undefined, chunk, meta, final)
-
-            /*  case 2: response on push  */
-            else if (parsed.resource !== undefined) {
-                const name = parsed.resource
-                const handler = this.provisionings.get(name)
-                if (handler !== undefined) {
-                    let readable = this.pushStreams.get(requestId)
-                    if (readable === undefined) {
-                        readable = new Readable({ read (_size) {} })
-                        this.pushStreams.set(requestId, readable)
-
-                        /*  start timeout for push stream cleanup  */
-                        const timer = setTimeout(() => {
-                            const stream = this.pushStreams.get(requestId)
-                            if (stream !== undefined) {
-                                stream.destroy(new Error("push stream timeout"))
-                                this.pushStreams.delete(requestId)
-                                this.pushTimers.delete(requestId)
-                            }
-                        }, this.options.timeout)
-                        this.pushTimers.set(requestId, timer)
-
-                        /*  prepare info object  */
-                        const promise = streamToBuffer(readable)
-                        const params = parsed.params ?? []
-                        const info: InfoResource = { sender: parsed.sender ?? "" }
-                        if (parsed.receiver)
-                            info.receiver = parsed.receiver
-                        if (parsed.meta)
-                            info.meta = meta
-                        info.stream = readable
-                        info.buffer = promise
-
-                        /*  call handler  */
-                        Promise.resolve()
-                            .then(() => handler(...params, info))
-                            .catch((err: Error) => {
-                                this.mqtt.emit("error", err)
-                            })
-                    }
+            if (handler !== undefined) {
+                /*  bind the fetch to the first responding provider and ignore
+                    the chunks of any further providers (in case of broadcast requests)  */
+                if (handler.provider === undefined)
+                    handler.provider = parsed.sender
+                else if (parsed.sender !== handler.provider)
+                    return
+
+                /*  pass on chunks (unless the fetch was retried or finished meanwhile)  */
+                handler.sequencer.accept(parsed).then((messages) => {
+                    for (const message of messages)
+                        if (this.callbacks.get(requestId) === handler)
+                            handler.callback(message.error ? new Error(message.error) : undefined,
+                                message.chunk, message.meta, message.final, message.sender)
+                }, (err: Error) => {
+                    if (this.callbacks.get(requestId) === handler)
+                        handler.callback(err, undefined, undefined, undefined)
+                })
+            }
 
-                    /*  utility to cleanup timer  */
-                    const clearPushTimer = () => {
-                        const timer = this.pushTimers.get(requestId)
-                        if (timer !== undefined) {
-                            clearTimeout(timer)
-                            this.pushTimers.delete(requestId)
-                        }
-                    }
+            /*  case 2: response on push (with chunks passed on in sequence)  */
+            else if (parsed.resource !== undefined && this.provisionings.has(parsed.resource)) {
+                let transfer = this.pushTransfers.get(requestId)
+                if (transfer === undefined) {
+                    transfer = { flow: null, sequencer: new ChunkSequencer(this.options.chunkWindow * 2), timer: null }
+                    this.pushTransfers.set(requestId, transfer)
+                }
 
-                    if (error !== undefined) {
-                        clearPushTimer()
-                        readable.destroy(new Error(error))
-                        this.pushStreams.delete(requestId)
-                    }
-                    else {
-                        if (chunk !== undefined)
-                            readable.push(chunk)
-                        if (final) {
-                            clearPushTimer()
-                            readable.push(null)
-                            this.pushStreams.delete(requestId)
-                        }
-                    }
+                /*  pass on chunks (unless the push failed meanwhile)  */
+                const current = transfer
+                current.sequencer.accept(parsed).then((messages) => {
+                    for (const message of messages)
+                        if (this.pushTransfers.get(requestId) === current)
+                            this._pushChunk(topic, message)
+                }, (err: Error) => {
+                    if (this.pushTransfers.get(requestId) === current)
+                        this._pushFail(requestId, err, topic, parsed)
+                })
+                this._pushTouch(requestId)
+            }
+        }
+    }
+
+    /*  pass on a chunk of a received push (in sequence)  */
+    private _pushChunk (topic: string, parsed: ResourceTransferResponse) {
+        const requestId = parsed.id
+        const name      = parsed.resource!
+        const transfer  = this.pushTransfers.get(requestId)
+        const handlers  = this.provisionings.get(name)
+        if (transfer === undefined || handlers === undefined)
+            return
+        if (transfer.flow === null) {
+            /*  provide a separate stream to each handler (with credits granted to the pushing peer)  */
+            const sender = parsed.sender
+            const flow = new CreditReceiver(handlers.length, this.options.chunkWindow, (credit) => {
+                if (sender !== undefined) {
+                    const message = this.msg.makeResourceTransferCredit(requestId,
+                        name, credit, this.options.id, sender)
+                    const creditTopic = this.options.topicMake(name, "resource-transfer-credit", sender)
+                    this._publishMessage(creditTopic, message, { qos: 2 })
                 }
+                this._pushTouch(requestId)
+            })
+            transfer.flow = flow
+
+            /*  call handlers  */
+            const params = parsed.params ?? []
+            handlers.forEach(({ callback: handler }, i) => {
+                /*  prepare info object  */
+                const readable = flow.readables[i]
+                const promise = streamToBuffer(readable)
+                const info: InfoResource = { sender: parsed.sender ?? "" }
+                if (parsed.receiver)
+                    info.receiver = parsed.receiver
+                if (parsed.meta)
+                    info.meta = parsed.meta
+                info.stream = readable
+                info.buffer = promise
+
+                /*  call handler  */
+                Promise.resolve()
+                    .then(() => handler(...params, info))
+                    .catch((err: Error) => {
+                        this._diagnose("error", err, {
+                            category: "handler", topic, message: parsed, peerId: parsed.sender })
+                    })
+            })
+        }
+
+        /*  forward chunk (or error) to the streams  */
+        if (parsed.error !== undefined)
+            this._pushFail(requestId, new Error(parsed.error))
+        else {
+            if (parsed.final) {
+                if (transfer.timer !== null)
+                    clearTimeout(transfer.timer)
+                this.pushTransfers.delete(requestId)
             }
+            transfer.flow.push(parsed.chunk, parsed.final)
+        }
+    }
+
+    /*  fail a received push (or report the failure if no handler was called yet)  */
+    private _pushFail (requestId: string, err: Error, topic?: string, parsed?: ResourceTransferResponse) {
+        const transfer = this.pushTransfers.get(requestId)
+        if (transfer === undefined)
+            return
+        if (transfer.timer !== null)
+            clearTimeout(transfer.timer)
+        this.pushTransfers.delete(requestId)
+        if (transfer.flow !== null)
+            transfer.flow.destroy(err)
+        else
+            this._diagnose("error", err, {
+                category: "protocol", topic, message: parsed, peerId: parsed?.sender })
+    }
+
+    /*  (re-)start inactivity timeout of a received push while granted chunks are outstanding  */
+    private _pushTouch (requestId: string) {
+        const transfer = this.pushTransfers.get(requestId)
+        if (transfer === undefined)
+            return
+        if (transfer.timer !== null)
+            clearTimeout(transfer.timer)
+        transfer.timer = null
+        if (transfer.flow !== null && !transfer.flow.pending())
+            return
+        transfer.timer = setTimeout(() => {
+            transfer.timer = null
+            const missing = transfer.sequencer.missing()
+            this._pushFail(requestId, new Error(missing !== undefined
+                ? `missing resource chunk #${missing}`
+                : "push stream timeout"))
+        }, this.options.timeout)
+    }
+
+    /*  collect names of locally offered endpoints (Resource pattern handling)  */
+    protected _collectEndpoints (endpoints: PeerEndpoints) {
+        super._collectEndpoints(endpoints)
+        endpoints.resources.push(...this.provisionings.keys())
+    }
+
+    /*  fail (or retry) pending resource fetches on a connection loss (Resource pattern handling)
+        (except for requests still queued while offline, as they are still sent later)  */
+    protected _connectionLost (err: Error) {
+        super._connectionLost(err)
+        for (const handler of [ ...this.callbacks.values() ])
+            if (handler.sent)
+                handler.callback(err, undefined, undefined, undefined)
+    }
+
+    /*  settle all pending operations on destruction (Resource pattern handling)  */
+    protected async _destroy (err: Error) {
+        for (const handler of [ ...this.callbacks.values() ])
+            handler.callback(err, undefined, undefined, undefined)
+        for (const transfer of this.pushTransfers.values()) {
+            if (transfer.timer !== null)
+                clearTimeout(transfer.timer)
+            transfer.flow?.destroy(err)
+        }
+        this.pushTransfers.clear()
+        for (const credit of this.creditWindows.values())
+            credit.fail(err)
+        this.creditWindows.clear()
+        for (const readable of [ ...this.sendStreams ])
+            readable.destroy(err)
+        this.sendStreams.clear()
+        this.provisionings.clear()
+        await super._destroy(err)
+    }
+
+    /*  reject message (Resource pattern handling)  */
+    protected _rejectMessage (topic: string, parsed: Message, err: Error) {
+        if (parsed instanceof ResourceTransferRequest
+            && parsed.sender !== undefined
+            && (parsed.receiver === undefined || parsed.receiver === this.options.id)
+            && this.provisionings.has(parsed.resource)) {
+            /*  send error response  */
+            const response = this.msg.makeResourceTransferResponse(parsed.id, parsed.resource,
+                undefined, undefined, undefined, err.message, true, 0, undefined,
+                undefined, undefined, undefined, undefined, this.options.id, parsed.sender)
+            const responseTopic = this.options.topicMake(parsed.resource, "resource-transfer-response", parsed.sender)
+            this._publishMessage(responseTopic, response, { qos: 2 })
         }
+        else
+            super._rejectMessage(topic, parsed, err)
     }
 }
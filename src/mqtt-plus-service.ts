@@ -22,33 +22,51 @@
 **  SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
 */
 
-/*  built-in requirements  */
-import { Buffer }                     from "node:buffer"
-
 /*  external requirements  */
 import { IClientPublishOptions,
     IClientSubscribeOptions }         from "mqtt"
 import { nanoid }                     from "nanoid"
 
 /*  internal requirements  */
-import { ServiceCallRequest,
-    ServiceCallResponse }             from "./mqtt-plus-msg"
+import { Message,
+    PeerEndpoints,
+    ServiceCallRequest,
+    ServiceCallResponse,
+    ServiceCallCancel }               from "./mqtt-plus-msg"
 import { APISchema,
     APIEndpointService, ServiceKeys } from "./mqtt-plus-api"
 import type { WithInfo, InfoService } from "./mqtt-plus-info"
-import { EventTrait }                 from "./mqtt-plus-event"
+import type { RetryPolicy }           from "./mqtt-plus-options"
+import { retryDelay, DedupCache }     from "./mqtt-plus-util"
+import { StateTrait }                 from "./mqtt-plus-state"
 
 /*  the registration result type  */
 export interface Registration {
+    readonly inflight: number
+    readonly queued:   number
     unregister (): Promise<void>
 }
 
+/*  the internal registration state  */
+interface RegistrationState {
+    callback:    WithInfo<APIEndpointService, InfoService>
+    dedup?:      DedupCache<ServiceCallResponse | null>
+    concurrency: number
+    queue:       number
+    inflight:    number
+    waiting:     (() => void)[]
+}
+
 /*  Service Communication Trait  */
-export class ServiceTrait<T extends APISchema = APISchema> extends EventTrait<T> {
+export class ServiceTrait<T extends APISchema = APISchema> extends StateTrait<T> {
     /*  internal state  */
-    private registrations         = new Map<string, WithInfo<APIEndpointService, InfoService>>()
-    private responseCallback      = new Map<string, { service: string, callback: (err: any, result: any) => void }>()
-    private responseSubscriptions = new Map<string, number>()
+    private registrations         = new Map<string, RegistrationState>()
+    private responseCallback      = new Map<string, {
+        service:  string,
+        sent:     boolean,
+        callback: (err: any, result: any, sender?: string) => void
+    }>()
+    private requestControllers    = new Map<string, AbortController>()
 
     /*  register an RPC service  */
     async register<K extends ServiceKeys<T> & string> (
@@ -60,7 +78,10 @@ export class ServiceTrait<T extends APISchema = APISchema> extends EventTrait<T>
             service:   K,
             callback:  WithInfo<T[K], InfoService>,
             options?:  Partial<IClientSubscribeOptions>,
-            share?:    string
+            share?:    string,
+            dedup?:    boolean | { size?: number, ttl?: number },
+            concurrency?: number,
+            queue?:    number
         }
     ): Promise<Registration>
     async register<K extends ServiceKeys<T> & string> (
@@ -68,7 +89,10 @@ export class ServiceTrait<T extends APISchema = APISchema> extends EventTrait<T>
             service:   K,
             callback:  WithInfo<T[K], InfoService>,
             options?:  Partial<IClientSubscribeOptions>,
-            share?:    string
+            share?:    string,
+            dedup?:    boolean | { size?: number, ttl?: number },
+            concurrency?: number,
+            queue?:    number
         },
         ...args:  any[]
     ): Promise<Registration> {
@@ -77,12 +101,21 @@ export class ServiceTrait<T extends APISchema = APISchema> extends EventTrait<T>
         let callback: WithInfo<T[K], InfoService>
         let options:  Partial<IClientSubscribeOptions> = {}
         let share:    string | undefined
+        let dedup:    DedupCache<ServiceCallResponse | null> | undefined
+        let concurrency = Infinity
+        let queue       = 0
         if (typeof serviceOrConfig === "object" && serviceOrConfig !== null) {
             /*  object-based API  */
             service  = serviceOrConfig.service
             callback = serviceOrConfig.callback
             options  = serviceOrConfig.options ?? {}
             share    = serviceOrConfig.share
+            if (serviceOrConfig.dedup) {
+                const config = typeof serviceOrConfig.dedup === "object" ? serviceOrConfig.dedup : {}
+                dedup = new DedupCache(config.size ?? 1000, config.ttl ?? 60 * 1000)
+            }
+            concurrency = serviceOrConfig.concurrency ?? concurrency
+            queue       = serviceOrConfig.queue       ?? queue
         }
         else {
             /*  positional API  */
@@ -110,15 +143,27 @@ export class ServiceTrait<T extends APISchema = APISchema> extends EventTrait<T>
         })
 
         /*  remember the registration  */
-        this.registrations.set(service, callback as WithInfo<APIEndpointService, InfoService>)
+        const state: RegistrationState = {
+            callback: callback as WithInfo<APIEndpointService, InfoService>,
+            dedup,
+            concurrency,
+            queue,
+            inflight: 0,
+            waiting:  []
+        }
+        this.registrations.set(service, state)
+        this._endpointsChanged()
 
         /*  provide a registration for subsequent unregistering  */
         const self = this
         const registration: Registration = {
+            get inflight () { return state.inflight },
+            get queued ()   { return state.waiting.length },
             async unregister (): Promise<void> {
                 if (!self.registrations.has(service))
                     throw new Error(`unregister: service "${service}" not registered`)
                 self.registrations.delete(service)
+                self._endpointsChanged()
                 return Promise.all([
                     self._unsubscribeTopic(topicB),
                     self._unsubscribeTopic(topicD)
@@ -138,7 +183,10 @@ export class ServiceTrait<T extends APISchema = APISchema> extends EventTrait<T>
             service:   K,
             params:    Parameters<T[K]>,
             receiver?: string,
-            options?:  IClientPublishOptions
+            options?:  IClientPublishOptions,
+            signal?:   AbortSignal,
+            timeout?:  number,
+            retry?:    Partial<RetryPolicy>
         }
     ): Promise<ReturnType<T[K]>>
     call<K extends ServiceKeys<T> & string> (
@@ -146,7 +194,10 @@ export class ServiceTrait<T extends APISchema = APISchema> extends EventTrait<T>
             service:   K,
             params:    Parameters<T[K]>,
             receiver?: string,
-            options?:  IClientPublishOptions
+            options?:  IClientPublishOptions,
+            signal?:   AbortSignal,
+            timeout?:  number,
+            retry?:    Partial<RetryPolicy>
         },
         ...args:       any[]
     ): Promise<ReturnType<T[K]>> {
@@ -155,12 +206,18 @@ export class ServiceTrait<T extends APISchema = APISchema> extends EventTrait<T>
         let params:    Parameters<T[K]>
         let receiver:  string | undefined
         let options:   IClientPublishOptions = {}
+        let signal:    AbortSignal | undefined
+        let timeout:   number = this.options.timeout
+        let retry:     RetryPolicy = this.options.retry
         if (typeof serviceOrConfig === "object" && serviceOrConfig !== null) {
             /*  object-based API  */
             service  = serviceOrConfig.service
             params   = serviceOrConfig.params
             receiver = serviceOrConfig.receiver
             options  = serviceOrConfig.options ?? {}
+            signal   = serviceOrConfig.signal
+            timeout  = serviceOrConfig.timeout ?? timeout
+            retry    = { ...retry, ...serviceOrConfig.retry }
         }
         else {
             /*  positional API  */
@@ -168,99 +225,314 @@ export class ServiceTrait<T extends APISchema = APISchema> extends EventTrait<T>
             params   = args as Parameters<T[K]>
         }
 
-        /*  generate unique request id  */
+        /*  short-circuit processing if already aborted  */
+        if (signal?.aborted)
+            return Promise.reject(signal.reason)
+
+        /*  generate unique request id (reused on all attempts)  */
         const rid = nanoid()
 
+        /*  generate corresponding MQTT topic  */
+        const topic = this.options.topicMake(service, "service-call-request", receiver)
+
+        /*  generate message  */
+        const request = this.msg.makeServiceCallRequest(rid, service, params, this.options.id, receiver)
+
         /*  subscribe to MQTT response topic  */
-        this._responseSubscribe(service, { qos: options.qos ?? 2 })
+        this._responseSubscribe(service, "service-call-response", { qos: options.qos ?? 2 })
 
         /*  create promise for MQTT response handling  */
         const promise: Promise<Awaited<ReturnType<T[K]>>> = new Promise((resolve, reject) => {
-            let timer: ReturnType<typeof setTimeout> | null = setTimeout(() => {
+            let attempt = 0
+            let timer: ReturnType<typeof setTimeout> | null = null
+
+            /*  utility function for cleaning up the pending request  */
+            const cleanup = () => {
+                if (timer !== null) {
+                    clearTimeout(timer)
+                    timer = null
+                }
+                signal?.removeEventListener("abort", onAbort)
                 this.responseCallback.delete(rid)
-                this._responseUnsubscribe(service)
-                timer = null
-                reject(new Error("communication timeout"))
-            }, this.options.timeout)
+                this._responseUnsubscribe(service, "service-call-response")
+            }
+
+            /*  utility function for cancelling the pending request  */
+            const cancel = (err: any) => {
+                if (!this.responseCallback.has(rid))
+                    return
+                cleanup()
+                this._cancelCall(rid, service, receiver, [], options)
+                reject(err)
+            }
+
+            /*  utility function for retrying the request (if allowed)  */
+            const retryable = (err: any) => {
+                if (this.destroyed || attempt >= retry.attempts || !retry.retryable(err))
+                    return false
+                this._diagnose("warning", err, { category: "communication", topic, message: request, peerId: receiver })
+                if (timer !== null)
+                    clearTimeout(timer)
+                timer = setTimeout(() => {
+                    timer = null
+                    send()
+                }, retryDelay(retry, attempt))
+                return true
+            }
+
+            /*  utility function for (re)starting the response timeout  */
+            const startTimer = () => {
+                if (timer !== null)
+                    clearTimeout(timer)
+                timer = setTimeout(() => {
+                    timer = null
+                    const err = new Error("communication timeout")
+                    if (!retryable(err))
+                        cancel(err)
+                }, timeout)
+            }
+
+            /*  utility function for sending the request
+                (where the timeout bounds both the time the request is queued while offline
+                and, restarted once the request was actually sent, the time until the response)  */
+            const send = () => {
+                const current = ++attempt
+                const pending = this.responseCallback.get(rid)
+                if (pending !== undefined)
+                    pending.sent = false
+                startTimer()
+                this._whenOnline(() => {
+                    const pending = this.responseCallback.get(rid)
+                    if (pending === undefined || attempt !== current)
+                        return
+                    pending.sent = true
+                    startTimer()
+                })
+                this._publishMessage(topic, request, { qos: 2, ...options }, (err?: Error) => {
+                    /*  handle request failure (only if not already handled)  */
+                    if (err && this.responseCallback.has(rid) && !retryable(err)) {
+                        cleanup()
+                        reject(err)
+                    }
+                })
+            }
+
+            /*  handle abort  */
+            const onAbort = () => { cancel(signal!.reason) }
+            signal?.addEventListener("abort", onAbort, { once: true })
+
+            /*  handle response  */
             this.responseCallback.set(rid, {
                 service,
+                sent: false,
                 callback: (err: any, result: Awaited<ReturnType<T[K]>>) => {
-                    if (timer !== null) {
-                        clearTimeout(timer)
-                        timer = null
-                    }
+                    if (err && retryable(err))
+                        return
+                    cleanup()
                     if (err) reject(err)
                     else     resolve(result)
                 }
             })
+
+            /*  send request (initial attempt)  */
+            send()
         })
 
-        /*  generate encoded message  */
-        const request = this.msg.makeServiceCallRequest(rid, service, params, this.options.id, receiver)
-        const message = this.codec.encode(request)
+        return promise
+    }
+
+    /*  call service on all registrants ("request and responses")  */
+    callAll<K extends ServiceKeys<T> & string> (
+        service:       K,
+        ...params:     Parameters<T[K]>
+    ): Promise<Map<string, PromiseSettledResult<Awaited<ReturnType<T[K]>>>>>
+    callAll<K extends ServiceKeys<T> & string> (
+        config: {
+            service:   K,
+            params:    Parameters<T[K]>,
+            options?:  IClientPublishOptions,
+            signal?:   AbortSignal,
+            timeout?:  number,
+            count?:    number
+        }
+    ): Promise<Map<string, PromiseSettledResult<Awaited<ReturnType<T[K]>>>>>
+    callAll<K extends ServiceKeys<T> & string> (
+        serviceOrConfig: K | {
+            service:   K,
+            params:    Parameters<T[K]>,
+            options?:  IClientPublishOptions,
+            signal?:   AbortSignal,
+            timeout?:  number,
+            count?:    number
+        },
+        ...args:       any[]
+    ): Promise<Map<string, PromiseSettledResult<Awaited<ReturnType<T[K]>>>>> {
+        /*  determine actual parameters  */
+        let service:   K
+        let params:    Parameters<T[K]>
+        let options:   IClientPublishOptions = {}
+        let signal:    AbortSignal | undefined
+        let timeout:   number = this.options.timeout
+        let count:     number = Infinity
+        if (typeof serviceOrConfig === "object" && serviceOrConfig !== null) {
+            /*  object-based API  */
+            service  = serviceOrConfig.service
+            params   = serviceOrConfig.params
+            options  = serviceOrConfig.options ?? {}
+            signal   = serviceOrConfig.signal
+            timeout  = serviceOrConfig.timeout ?? timeout
+            count    = serviceOrConfig.count ?? count
+        }
+        else {
+            /*  positional API  */
+            service  = serviceOrConfig as K
+            params   = args as Parameters<T[K]>
+        }
+
+        /*  short-circuit processing if already aborted  */
+        if (signal?.aborted)
+            return Promise.reject(signal.reason)
+
+        /*  generate unique request id  */
+        const rid = nanoid()
 
         /*  generate corresponding MQTT topic  */
-        const topic = this.options.topicMake(service, "service-call-request", receiver)
+        const topic = this.options.topicMake(service, "service-call-request")
 
-        /*  publish message to MQTT topic  */
-        this.mqtt.publish(topic, Buffer.from(message), { qos: 2, ...options }, (err?: Error) => {
-            /*  handle request failure (only if not already handled)  */
-            if (err) {
-                const pendingRequest = this.responseCallback.get(rid)
-                if (pendingRequest !== undefined) {
-                    this.responseCallback.delete(rid)
-                    this._responseUnsubscribe(service)
-                    pendingRequest.callback(err, undefined)
+        /*  subscribe to MQTT response topic  */
+        this._responseSubscribe(service, "service-call-response", { qos: options.qos ?? 2 })
+
+        /*  create promise for MQTT responses handling  */
+        type Result = PromiseSettledResult<Awaited<ReturnType<T[K]>>>
+        const results = new Map<string, Result>()
+        const promise: Promise<Map<string, Result>> = new Promise((resolve, reject) => {
+            /*  utility function for finishing the gathering  */
+            let timer: ReturnType<typeof setTimeout> | null = null
+            const finish = (err?: any) => {
+                if (!this.responseCallback.has(rid))
+                    return
+                if (timer !== null) {
+                    clearTimeout(timer)
+                    timer = null
                 }
+                this.responseCallback.delete(rid)
+                this._responseUnsubscribe(service, "service-call-response")
+                signal?.removeEventListener("abort", onAbort)
+
+                /*  cancel still pending requests on all registrants which did not answer yet  */
+                this._cancelCall(rid, service, undefined, [ ...results.keys() ], options)
+
+                if (err !== undefined) reject(err)
+                else                   resolve(results)
+            }
+
+            /*  handle time window (bounding the time the request is queued while offline,
+                and restarted once the request was actually sent) and abort  */
+            const startTimer = () => {
+                if (timer !== null)
+                    clearTimeout(timer)
+                timer = setTimeout(() => {
+                    timer = null
+                    finish()
+                }, timeout)
             }
+            const onAbort = () => { finish(signal!.reason) }
+            signal?.addEventListener("abort", onAbort, { once: true })
+
+            /*  handle responses  */
+            this.responseCallback.set(rid, {
+                service,
+                sent: false,
+                callback: (err: any, result: Awaited<ReturnType<T[K]>>, sender?: string) => {
+                    if (sender === undefined)
+                        finish(err)
+                    else {
+                        if (err) results.set(sender, { status: "rejected",  reason: err })
+                        else     results.set(sender, { status: "fulfilled", value:  result })
+                        if (results.size >= count)
+                            finish()
+                    }
+                }
+            })
+            startTimer()
+            this._whenOnline(() => {
+                const pending = this.responseCallback.get(rid)
+                if (pending === undefined)
+                    return
+                pending.sent = true
+                startTimer()
+            })
+        })
+
+        /*  generate message  */
+        const request = this.msg.makeServiceCallRequest(rid, service, params, this.options.id)
+
+        /*  publish message to MQTT topic  */
+        this._publishMessage(topic, request, { qos: 2, ...options }, (err?: Error) => {
+            /*  handle request failure (only if not already handled)  */
+            if (err)
+                this.responseCallback.get(rid)?.callback(err, undefined)
         })
 
         return promise
     }
 
-    /*  subscribe to RPC response  */
-    private _responseSubscribe (service: string, options: IClientSubscribeOptions = { qos: 2 }): void {
-        /*  generate corresponding MQTT topic  */
-        const topic = this.options.topicMake(service, "service-call-response", this.options.id)
-
-        /*  subscribe to MQTT topic and remember subscription  */
-        if (!this.responseSubscriptions.has(topic)) {
-            this.responseSubscriptions.set(topic, 0)
-            this.mqtt.subscribe(topic, options, (err: Error | null) => {
-                if (err) {
-                    const count = this.responseSubscriptions.get(topic) ?? 0
-                    if (count > 1)
-                        this.responseSubscriptions.set(topic, count - 1)
-                    else
-                        this.responseSubscriptions.delete(topic)
-                    this.mqtt.emit("error", err)
-                }
-            })
+    /*  cancel a pending service call, either on its particular receiver, or on all peers
+        known to offer the service which did not answer yet (directly, as a broadcast could reach
+        just a different member of a shared subscription), or else as a broadcast  */
+    private _cancelCall (
+        rid:      string,
+        service:  string,
+        receiver: string | undefined,
+        answered: string[],
+        options:  IClientPublishOptions
+    ) {
+        const send = (peerId?: string) => {
+            const topic = this.options.topicMake(service, "service-call-request", peerId)
+            const message = this.msg.makeServiceCallCancel(rid, service, this.options.id, peerId)
+            this._publishMessage(topic, message, { qos: 2, ...options })
         }
-        const count = this.responseSubscriptions.get(topic) ?? 0
-        this.responseSubscriptions.set(topic, count + 1)
+        const peers = this._servicePeers(service)
+        if (receiver !== undefined)
+            send(receiver)
+        else if (peers !== undefined && peers.length > 0) {
+            for (const peerId of peers)
+                if (!answered.includes(peerId))
+                    send(peerId)
+        }
+        else
+            send()
     }
 
-    /*  unsubscribe from RPC response  */
-    private _responseUnsubscribe (service: string): void {
-        /*  generate corresponding MQTT topic  */
-        const topic = this.options.topicMake(service, "service-call-response", this.options.id)
-
-        /*  short-circuit processing if (no longer) subscribed  */
-        if (!this.responseSubscriptions.has(topic))
-            return
-
-        /*  unsubscribe from MQTT topic and forget subscription  */
-        const count = this.responseSubscriptions.get(topic) ?? 0
-        if (count > 1)
-            this.responseSubscriptions.set(topic, count - 1)
-        else {
-            this.responseSubscriptions.delete(topic)
-            this.mqtt.unsubscribe(topic, (err?: Error) => {
-                if (err)
-                    this.mqtt.emit("error", err)
-            })
+    /*  acquire an execution slot for a service handler (or wait in the queue)  */
+    private _acquireSlot (state: RegistrationState, service: string, signal: AbortSignal) {
+        if (state.inflight < state.concurrency) {
+            state.inflight++
+            return Promise.resolve()
         }
+        if (state.waiting.length >= state.queue)
+            return Promise.reject(Object.assign(new Error(`service busy: ${service}`), { code: "EBUSY" }))
+        return new Promise<void>((resolve, reject) => {
+            const waiter = () => {
+                signal.removeEventListener("abort", onAbort)
+                state.inflight++
+                resolve()
+            }
+            const onAbort = () => {
+                const i = state.waiting.indexOf(waiter)
+                if (i >= 0)
+                    state.waiting.splice(i, 1)
+                reject(signal.reason)
+            }
+            signal.addEventListener("abort", onAbort, { once: true })
+            state.waiting.push(waiter)
+        })
+    }
+
+    /*  release an execution slot of a service handler (and resume next queued request)  */
+    private _releaseSlot (state: RegistrationState) {
+        state.inflight--
+        state.waiting.shift()?.()
     }
 
     /*  dispatch message (Service pattern handling)  */
@@ -269,19 +541,47 @@ export class ServiceTrait<T extends APISchema = APISchema> extends EventTrait<T>
         const topicMatch = this.options.topicMatch(topic)
         if (topicMatch !== null
             && topicMatch.operation === "service-call-request"
+            && (topicMatch.peerId === undefined || topicMatch.peerId === this.options.id)
             && parsed instanceof ServiceCallRequest) {
             /*  deliver service request and send response  */
             const rid = parsed.id
             const name = parsed.service
-            const handler = this.registrations.get(name)
+            const key = `${parsed.sender}:${rid}`
+            const registration = this.registrations.get(name)
+
+            /*  ignore broadcast requests for services not registered here
+                (received through wildcard subscriptions), as other peers may respond  */
+            if (registration === undefined && topicMatch.peerId === undefined)
+                return
+
+            const dedup = registration?.dedup
+            const controller = new AbortController()
             let response: Promise<any>
-            if (handler !== undefined) {
+
+            /*  handle repeated request (replay cached response or skip in-flight request)  */
+            if (dedup !== undefined && parsed.sender !== undefined) {
+                const cached = dedup.get(key)
+                if (cached !== undefined) {
+                    if (cached !== null) {
+                        const topic = this.options.topicMake(name, "service-call-response", parsed.sender)
+                        this._publishMessage(topic, cached, { qos: 2 })
+                    }
+                    return
+                }
+                dedup.set(key, null)
+            }
+
+            if (registration !== undefined) {
                 /*  execute service handler  */
                 const params = parsed.params ?? []
-                const info: InfoService = { sender: parsed.sender ?? "" }
+                const info: InfoService = { sender: parsed.sender ?? "", signal: controller.signal }
                 if (parsed.receiver)
                     info.receiver = parsed.receiver
-                response = Promise.resolve().then(() => handler(...params, info))
+                this.requestControllers.set(key, controller)
+                response = this._acquireSlot(registration, name, controller.signal).then(async () => {
+                    try     { return await registration.callback(...params, info) }
+                    finally { this._releaseSlot(registration) }
+                })
             }
             else
                 response = Promise.reject(new Error(`method not found: ${name}`))
@@ -290,30 +590,47 @@ export class ServiceTrait<T extends APISchema = APISchema> extends EventTrait<T>
                 return this.msg.makeServiceCallResponse(rid, result,
                     undefined, this.options.id, parsed.sender)
             }, (result: any) => {
-                /*  determine error message and build error response  */
-                let errorMessage: string
-                if (result === undefined || result === null)
-                    errorMessage = "undefined error"
-                else if (typeof result === "string")
-                    errorMessage = result
-                else if (result instanceof Error)
-                    errorMessage = result.message
-                else
-                    errorMessage = String(result)
+                /*  determine error information and build error response  */
                 return this.msg.makeServiceCallResponse(rid, undefined,
-                    errorMessage, this.options.id, parsed.sender)
+                    this._errorToInfo(result), this.options.id, parsed.sender)
             }).then((rpcResponse) => {
+                /*  forget request and skip response message in case it was cancelled  */
+                this.requestControllers.delete(key)
+                if (controller.signal.aborted) {
+                    dedup?.delete(key)
+                    return
+                }
+
                 /*  send response message  */
                 const senderPeerId = parsed.sender
                 if (senderPeerId === undefined)
                     throw new Error("invalid request: missing sender")
-                const encoded = this.codec.encode(rpcResponse)
+                /*  remember successful response for replaying on repeated requests
+                    (failed requests are forgotten, in order to allow them to be retried)  */
+                if (dedup !== undefined) {
+                    if (rpcResponse.error === undefined)
+                        dedup.set(key, rpcResponse)
+                    else
+                        dedup.delete(key)
+                }
+
                 const topic = this.options.topicMake(name, "service-call-response", senderPeerId)
-                this.mqtt.publish(topic, Buffer.from(encoded), { qos: 2 })
+                this._publishMessage(topic, rpcResponse, { qos: 2 })
             }).catch((err: Error) => {
-                this.mqtt.emit("error", err)
+                this._diagnose("error", err, { category: "protocol", topic, message: parsed, peerId: parsed.sender })
             })
         }
+        else if (topicMatch !== null
+            && topicMatch.operation === "service-call-request"
+            && parsed instanceof ServiceCallCancel) {
+            /*  abort the corresponding service handler  */
+            const key = `${parsed.sender}:${parsed.id}`
+            const controller = this.requestControllers.get(key)
+            if (controller !== undefined) {
+                this.requestControllers.delete(key)
+                controller.abort()
+            }
+        }
         else if (topicMatch !== null
             && topicMatch.operation === "service-call-response"
             && topicMatch.peerId === this.options.id
@@ -322,16 +639,54 @@ export class ServiceTrait<T extends APISchema = APISchema> extends EventTrait<T>
             const rid = parsed.id
             const request = this.responseCallback.get(rid)
             if (request !== undefined) {
-                /*  call callback function  */
+                /*  call callback function (which is responsible for cleaning up)  */
                 if (parsed.error !== undefined)
-                    request.callback(new Error(parsed.error), undefined)
+                    request.callback(this._errorFromInfo(parsed.error), undefined, parsed.sender ?? "")
                 else
-                    request.callback(undefined, parsed.result)
-
-                /*  unsubscribe from response  */
-                this.responseCallback.delete(rid)
-                this._responseUnsubscribe(request.service)
+                    request.callback(undefined, parsed.result, parsed.sender ?? "")
             }
         }
     }
+
+    /*  collect names of locally offered endpoints (Service pattern handling)  */
+    protected _collectEndpoints (endpoints: PeerEndpoints) {
+        super._collectEndpoints(endpoints)
+        endpoints.services.push(...this.registrations.keys())
+    }
+
+    /*  fail (or retry) pending service calls on a connection loss (Service pattern handling)
+        (except for requests still queued while offline, as they are still sent later)  */
+    protected _connectionLost (err: Error) {
+        super._connectionLost(err)
+        for (const request of [ ...this.responseCallback.values() ])
+            if (request.sent)
+                request.callback(err, undefined)
+    }
+
+    /*  settle all pending operations on destruction (Service pattern handling)  */
+    protected async _destroy (err: Error) {
+        for (const request of [ ...this.responseCallback.values() ])
+            request.callback(err, undefined)
+        for (const controller of this.requestControllers.values())
+            controller.abort(err)
+        this.requestControllers.clear()
+        this.registrations.clear()
+        await super._destroy(err)
+    }
+
+    /*  reject message (Service pattern handling)  */
+    protected _rejectMessage (topic: string, parsed: Message, err: Error) {
+        if (parsed instanceof ServiceCallRequest
+            && parsed.sender !== undefined
+            && (parsed.receiver === undefined || parsed.receiver === this.options.id)
+            && this.registrations.has(parsed.service)) {
+            /*  send error response  */
+            const response = this.msg.makeServiceCallResponse(parsed.id, undefined,
+                this._errorToInfo(err), this.options.id, parsed.sender)
+            const responseTopic = this.options.topicMake(parsed.service, "service-call-response", parsed.sender)
+            this._publishMessage(responseTopic, response, { qos: 2 })
+        }
+        else
+            super._rejectMessage(topic, parsed, err)
+    }
 }
@@ -0,0 +1,307 @@
+/*
+**  MQTT+ -- MQTT Communication Patterns
+**  Copyright (c) 2018-2026 Dr. Ralf S. Engelschall <rse@engelschall.com>
+**
+**  Permission is hereby granted, free of charge, to any person obtaining
+**  a copy of this software and associated documentation files (the
+**  "Software"), to deal in the Software without restriction, including
+**  without limitation the rights to use, copy, modify, merge, publish,
+**  distribute, sublicense, and/or sell copies of the Software, and to
+**  permit persons to whom the Software is furnished to do so, subject to
+**  the following conditions:
+**
+**  The above copyright notice and this permission notice shall be included
+**  in all copies or substantial portions of the Software.
+**
+**  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+**  EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+**  MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+**  IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY
+**  CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT,
+**  TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+**  SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+/*  built-in requirements  */
+import { Buffer }                    from "node:buffer"
+
+/*  external requirements  */
+import { IClientPublishOptions,
+    IClientSubscribeOptions }        from "mqtt"
+import { nanoid }                    from "nanoid"
+
+/*  internal requirements  */
+import { StateUpdate }               from "./mqtt-plus-msg"
+import { APISchema,
+    StateKeys, StateValue }          from "./mqtt-plus-api"
+import type { InfoState }            from "./mqtt-plus-info"
+import { EventTrait, Subscription }  from "./mqtt-plus-event"
+
+/*  the observation callback type (where an undefined value indicates a cleared state)  */
+type StateCallback<V> = (value: V | undefined, info: InfoState) => void | Promise<void>
+
+/*  State Communication Trait  */
+export class StateTrait<T extends APISchema = APISchema> extends EventTrait<T> {
+    /*  internal state  */
+    private observations = new Set<{ state: string, callback: StateCallback<any> }>()
+    private states       = new Map<string, { id: string, value: any, info: InfoState }>()
+    private getters      = new Set<(err: Error) => void>()
+
+    /*  observe a state (starting with its current value)  */
+    async observe<K extends StateKeys<T> & string> (
+        state:    K,
+        callback: StateCallback<StateValue<T[K]>>
+    ): Promise<Subscription>
+    async observe<K extends StateKeys<T> & string> (
+        config: {
+            state:     K,
+            callback:  StateCallback<StateValue<T[K]>>,
+            options?:  Partial<IClientSubscribeOptions>
+        }
+    ): Promise<Subscription>
+    async observe<K extends StateKeys<T> & string> (
+        stateOrConfig: K | {
+            state:     K,
+            callback:  StateCallback<StateValue<T[K]>>,
+            options?:  Partial<IClientSubscribeOptions>
+        },
+        ...args:       any[]
+    ): Promise<Subscription> {
+        /*  determine actual parameters  */
+        let state:    K
+        let callback: StateCallback<StateValue<T[K]>>
+        let options:  Partial<IClientSubscribeOptions> = {}
+        if (typeof stateOrConfig === "object" && stateOrConfig !== null) {
+            /*  object-based API  */
+            state    = stateOrConfig.state
+            callback = stateOrConfig.callback
+            options  = stateOrConfig.options ?? {}
+        }
+        else {
+            /*  positional API  */
+            state    = stateOrConfig as K
+            callback = args[0] as StateCallback<StateValue<T[K]>>
+        }
+
+        /*  generate the corresponding MQTT topic (states are always broadcasted)  */
+        const topic = this.options.topicMake(state, "state-update")
+
+        /*  remember the observation (already before subscribing,
+            as the broker might deliver the retained value immediately)  */
+        const entry = { state, callback: callback as StateCallback<any> }
+        this.observations.add(entry)
+
+        /*  deliver the already known current value (as the broker delivers
+            the retained value on the first subscription of the topic only)  */
+        const current = this.states.get(state)
+        if (current !== undefined)
+            this._callObserver(entry, current.value, current.info)
+
+        /*  subscribe to MQTT topic (shared with other observations of the same state)  */
+        await this._subscribeTopic(topic, { qos: 1, ...options }).catch((err: Error) => {
+            this._forgetObservation(entry)
+            this._unsubscribeTopic(topic).catch(() => {})
+            throw err
+        })
+
+        /*  provide a subscription for subsequent unsubscribing  */
+        const self = this
+        const subscription: Subscription = {
+            async unsubscribe (): Promise<void> {
+                if (!self.observations.has(entry))
+                    throw new Error(`unsubscribe: state "${state}" not observed`)
+                self._forgetObservation(entry)
+                return self._unsubscribeTopic(topic)
+            }
+        }
+        return subscription
+    }
+
+    /*  set state (as a retained message)  */
+    async set<K extends StateKeys<T> & string> (
+        state:         K,
+        value:         StateValue<T[K]>
+    ): Promise<void>
+    async set<K extends StateKeys<T> & string> (
+        config: {
+            state:     K,
+            value:     StateValue<T[K]>,
+            options?:  IClientPublishOptions
+        }
+    ): Promise<void>
+    async set<K extends StateKeys<T> & string> (
+        stateOrConfig: K | {
+            state:     K,
+            value:     StateValue<T[K]>,
+            options?:  IClientPublishOptions
+        },
+        ...args:       any[]
+    ): Promise<void> {
+        /*  determine actual parameters  */
+        let state:     K
+        let value:     StateValue<T[K]>
+        let options:   IClientPublishOptions = {}
+        if (typeof stateOrConfig === "object" && stateOrConfig !== null) {
+            /*  object-based API  */
+            state    = stateOrConfig.state
+            value    = stateOrConfig.value
+            options  = stateOrConfig.options ?? {}
+        }
+        else {
+            /*  positional API  */
+            state    = stateOrConfig as K
+            value    = args[0] as StateValue<T[K]>
+        }
+
+        /*  generate message and corresponding MQTT topic  */
+        const request = this.msg.makeStateUpdate(nanoid(), state, value, this.options.id)
+        const topic = this.options.topicMake(state, "state-update")
+
+        /*  publish message to MQTT topic  */
+        return new Promise<void>((resolve, reject) => {
+            this._publishMessage(topic, request, { qos: 1, ...options, retain: true }, (err?: Error) => {
+                if (err) reject(err)
+                else     resolve()
+            })
+        })
+    }
+
+    /*  get current state (from observation or by a temporary observation)  */
+    async get<K extends StateKeys<T> & string> (
+        state:    K,
+        options:  { timeout?: number, grace?: number } = {}
+    ): Promise<StateValue<T[K]> | undefined> {
+        /*  short-circuit processing if value is already known  */
+        const current = this.states.get(state)
+        if (current !== undefined)
+            return current.value
+
+        /*  observe state until the first value arrives, or until a short grace period
+            after the subscription was acknowledged (as the broker delivers a retained value
+            right after the acknowledgement and its absence cannot be detected otherwise),
+            but at most until the timeout expires  */
+        return new Promise((resolve, reject) => {
+            let subscription: Subscription | undefined
+            let grace: ReturnType<typeof setTimeout> | undefined
+            let done = false
+            const abort = (err: Error) => {
+                if (done)
+                    return
+                done = true
+                clearTimeout(timer)
+                clearTimeout(grace)
+                this.getters.delete(abort)
+                reject(err)
+            }
+            const finish = (value: StateValue<T[K]> | undefined) => {
+                if (done)
+                    return
+                done = true
+                clearTimeout(timer)
+                clearTimeout(grace)
+                this.getters.delete(abort)
+                subscription?.unsubscribe().catch(() => {})
+                resolve(value)
+            }
+            const timer = setTimeout(() => { finish(undefined) }, options.timeout ?? this.options.timeout)
+            this.getters.add(abort)
+            this.observe(state, (value) => { finish(value) }).then((s) => {
+                subscription = s
+                if (done)
+                    s.unsubscribe().catch(() => {})
+                else
+                    grace = setTimeout(() => { finish(undefined) }, options.grace ?? 100)
+            }).catch((err: Error) => {
+                abort(err)
+            })
+        })
+    }
+
+    /*  clear state (by removing the retained message)  */
+    async clear<K extends StateKeys<T> & string> (
+        state:    K,
+        options:  IClientPublishOptions = {}
+    ): Promise<void> {
+        const topic = this.options.topicMake(state, "state-update")
+        return new Promise<void>((resolve, reject) => {
+            this._publishEncoded(topic, Buffer.alloc(0), { qos: 1, ...options, retain: true }, (err?: Error) => {
+                if (err) reject(err)
+                else     resolve()
+            })
+        })
+    }
+
+    /*  forget an observation (and the state value once it is no longer observed)  */
+    private _forgetObservation (entry: { state: string, callback: StateCallback<any> }) {
+        this.observations.delete(entry)
+        for (const other of this.observations)
+            if (other.state === entry.state)
+                return
+        this.states.delete(entry.state)
+    }
+
+    /*  call an observer callback  */
+    private _callObserver (entry: { callback: StateCallback<any> }, value: any, info: InfoState) {
+        Promise.resolve()
+            .then(() => entry.callback(value, { ...info }))
+            .catch((err: Error) => {
+                this._diagnose("error", err, {
+                    category: "handler",
+                    topic:    this.options.topicMake(info.state, "state-update"),
+                    peerId:   info.sender || undefined
+                })
+            })
+    }
+
+    /*  deliver a state value to all its observers  */
+    private _deliverState (state: string, id: string | undefined, value: any, info: InfoState) {
+        /*  ignore a retained value delivered again (e.g. after restoring subscriptions)  */
+        if (id !== undefined && this.states.get(state)?.id === id)
+            return
+        let observed = false
+        for (const entry of this.observations) {
+            if (entry.state !== state)
+                continue
+            observed = true
+            this._callObserver(entry, value, info)
+        }
+        if (!observed)
+            return
+        if (value === undefined || id === undefined)
+            this.states.delete(state)
+        else
+            this.states.set(state, { id, value, info })
+    }
+
+    /*  dispatch message (State pattern handling)  */
+    protected _dispatchMessage (topic: string, parsed: any) {
+        super._dispatchMessage(topic, parsed)
+        const topicMatch = this.options.topicMatch(topic)
+        if (topicMatch !== null
+            && topicMatch.operation === "state-update"
+            && parsed instanceof StateUpdate) {
+            const info: InfoState = { sender: parsed.sender ?? "", state: parsed.state }
+            this._deliverState(parsed.state, parsed.id, parsed.value, info)
+        }
+    }
+
+    /*  settle all pending operations on destruction (State pattern handling)  */
+    protected async _destroy (err: Error) {
+        for (const abort of [ ...this.getters ])
+            abort(err)
+        this.observations.clear()
+        this.states.clear()
+        await super._destroy(err)
+    }
+
+    /*  dispatch clearing (State pattern handling)  */
+    protected _dispatchClear (topic: string) {
+        super._dispatchClear(topic)
+        const topicMatch = this.options.topicMatch(topic)
+        if (topicMatch !== null
+            && topicMatch.operation === "state-update") {
+            const info: InfoState = { sender: "", state: topicMatch.name }
+            this._deliverState(topicMatch.name, undefined, undefined, info)
+        }
+    }
+}
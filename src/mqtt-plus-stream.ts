@@ -0,0 +1,456 @@
+/*
+**  MQTT+ -- MQTT Communication Patterns
+**  Copyright (c) 2018-2026 Dr. Ralf S. Engelschall <rse@engelschall.com>
+**
+**  Permission is hereby granted, free of charge, to any person obtaining
+**  a copy of this software and associated documentation files (the
+**  "Software"), to deal in the Software without restriction, including
+**  without limitation the rights to use, copy, modify, merge, publish,
+**  distribute, sublicense, and/or sell copies of the Software, and to
+**  permit persons to whom the Software is furnished to do so, subject to
+**  the following conditions:
+**
+**  The above copyright notice and this permission notice shall be included
+**  in all copies or substantial portions of the Software.
+**
+**  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+**  EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+**  MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+**  IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY
+**  CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT,
+**  TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+**  SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+/*  external requirements  */
+import { IClientPublishOptions,
+    IClientSubscribeOptions }         from "mqtt"
+import { nanoid }                     from "nanoid"
+
+/*  internal requirements  */
+import { ErrorInfo,
+    Message,
+    PeerEndpoints,
+    StreamIterationRequest,
+    StreamIterationResponse,
+    StreamIterationCancel }           from "./mqtt-plus-msg"
+import { APISchema,
+    APIEndpointStream, StreamKeys,
+    StreamItem }                      from "./mqtt-plus-api"
+import type { WithInfo, InfoStream }  from "./mqtt-plus-info"
+import { IterableQueue,
+    QueueOverflow }                   from "./mqtt-plus-util"
+import { ServiceTrait }               from "./mqtt-plus-service"
+
+/*  the production result type  */
+export interface Production {
+    unproduce (): Promise<void>
+}
+
+/*  Stream Communication Trait  */
+export class StreamTrait<T extends APISchema = APISchema> extends ServiceTrait<T> {
+    /*  internal state  */
+    private productions          = new Map<string, WithInfo<APIEndpointStream, InfoStream>>()
+    private iterationCallback    = new Map<string, {
+        stream:   string,
+        sent:     boolean,
+        producer: string | undefined,
+        callback: (err: Error | undefined, item: any, final: boolean) => void
+    }>()
+    private iterationControllers = new Map<string, AbortController>()
+
+    /*  produce a stream  */
+    async produce<K extends StreamKeys<T> & string> (
+        stream:   K,
+        callback: WithInfo<T[K], InfoStream>
+    ): Promise<Production>
+    async produce<K extends StreamKeys<T> & string> (
+        config: {
+            stream:    K,
+            callback:  WithInfo<T[K], InfoStream>,
+            options?:  Partial<IClientSubscribeOptions>,
+            share?:    string
+        }
+    ): Promise<Production>
+    async produce<K extends StreamKeys<T> & string> (
+        streamOrConfig: K | {
+            stream:    K,
+            callback:  WithInfo<T[K], InfoStream>,
+            options?:  Partial<IClientSubscribeOptions>,
+            share?:    string
+        },
+        ...args:  any[]
+    ): Promise<Production> {
+        /*  determine actual parameters  */
+        let stream:   K
+        let callback: WithInfo<T[K], InfoStream>
+        let options:  Partial<IClientSubscribeOptions> = {}
+        let share:    string | undefined
+        if (typeof streamOrConfig === "object" && streamOrConfig !== null) {
+            /*  object-based API  */
+            stream   = streamOrConfig.stream
+            callback = streamOrConfig.callback
+            options  = streamOrConfig.options ?? {}
+            share    = streamOrConfig.share
+        }
+        else {
+            /*  positional API  */
+            stream   = streamOrConfig as K
+            callback = args[0] as WithInfo<T[K], InfoStream>
+        }
+
+        /*  sanity check situation  */
+        if (this.productions.has(stream))
+            throw new Error(`produce: stream "${stream}" already produced`)
+
+        /*  generate the corresponding MQTT topics for broadcast and direct use  */
+        const name = share ? `$share/${share}/${stream}` : stream
+        const topicB = this.options.topicMake(name, "stream-iteration-request")
+        const topicD = this.options.topicMake(name, "stream-iteration-request", this.options.id)
+
+        /*  subscribe to MQTT topics  */
+        await Promise.all([
+            this._subscribeTopic(topicB, { qos: 2, ...options }),
+            this._subscribeTopic(topicD, { qos: 2, ...options })
+        ]).catch((err: Error) => {
+            this._unsubscribeTopic(topicB).catch(() => {})
+            this._unsubscribeTopic(topicD).catch(() => {})
+            throw err
+        })
+
+        /*  remember the production  */
+        this.productions.set(stream, callback as WithInfo<APIEndpointStream, InfoStream>)
+        this._endpointsChanged()
+
+        /*  provide a production for subsequent unproducing  */
+        const self = this
+        const production: Production = {
+            async unproduce (): Promise<void> {
+                if (!self.productions.has(stream))
+                    throw new Error(`unproduce: stream "${stream}" not produced`)
+                self.productions.delete(stream)
+                self._endpointsChanged()
+                return Promise.all([
+                    self._unsubscribeTopic(topicB),
+                    self._unsubscribeTopic(topicD)
+                ]).then(() => {})
+            }
+        }
+        return production
+    }
+
+    /*  consume stream ("request and responses")  */
+    consume<K extends StreamKeys<T> & string> (
+        stream:        K,
+        ...params:     Parameters<T[K]>
+    ): AsyncIterableIterator<StreamItem<T[K]>>
+    consume<K extends StreamKeys<T> & string> (
+        config: {
+            stream:    K,
+            params:    Parameters<T[K]>,
+            receiver?: string,
+            options?:  IClientPublishOptions,
+            signal?:   AbortSignal,
+            timeout?:  number,
+            size?:     number,
+            overflow?: QueueOverflow
+        }
+    ): AsyncIterableIterator<StreamItem<T[K]>>
+    consume<K extends StreamKeys<T> & string> (
+        streamOrConfig: K | {
+            stream:    K,
+            params:    Parameters<T[K]>,
+            receiver?: string,
+            options?:  IClientPublishOptions,
+            signal?:   AbortSignal,
+            timeout?:  number,
+            size?:     number,
+            overflow?: QueueOverflow
+        },
+        ...args:       any[]
+    ): AsyncIterableIterator<StreamItem<T[K]>> {
+        /*  determine actual parameters  */
+        let stream:    K
+        let params:    Parameters<T[K]>
+        let receiver:  string | undefined
+        let options:   IClientPublishOptions = {}
+        let signal:    AbortSignal | undefined
+        let timeout:   number = this.options.timeout
+        let size:      number = 100
+        let overflow:  QueueOverflow = "error"
+        if (typeof streamOrConfig === "object" && streamOrConfig !== null) {
+            /*  object-based API  */
+            stream   = streamOrConfig.stream
+            params   = streamOrConfig.params
+            receiver = streamOrConfig.receiver
+            options  = streamOrConfig.options ?? {}
+            signal   = streamOrConfig.signal
+            timeout  = streamOrConfig.timeout ?? timeout
+            size     = streamOrConfig.size ?? size
+            overflow = streamOrConfig.overflow ?? overflow
+        }
+        else {
+            /*  positional API  */
+            stream   = streamOrConfig as K
+            params   = args as Parameters<T[K]>
+        }
+
+        /*  generate unique request id  */
+        const rid = nanoid()
+
+        /*  generate corresponding MQTT topic  */
+        const topic = this.options.topicMake(stream, "stream-iteration-request", receiver)
+
+        /*  define timer  */
+        let timer: ReturnType<typeof setTimeout> | null = null
+
+        /*  utility function for cleanup  */
+        const cleanup = () => {
+            if (timer !== null) {
+                clearTimeout(timer)
+                timer = null
+            }
+            signal?.removeEventListener("abort", onAbort)
+            if (this.iterationCallback.has(rid)) {
+                this.iterationCallback.delete(rid)
+                this._responseUnsubscribe(stream, "stream-iteration-response")
+            }
+        }
+
+        /*  utility function for cancelling the pending request  */
+        const cancel = () => {
+            if (!this.iterationCallback.has(rid))
+                return
+            cleanup()
+            const message = this.msg.makeStreamIterationCancel(rid, stream, this.options.id, receiver)
+            this._publishMessage(topic, message, { qos: 2, ...options })
+        }
+
+        /*  establish bounded queue for buffering received items
+            (which cancels the remote iteration on return and on overflow)  */
+        const queue = new IterableQueue<StreamItem<T[K]>>(() => { cancel() }, size, overflow)
+
+        /*  utility function for (re)starting the inactivity timer  */
+        const startTimer = () => {
+            if (timer !== null)
+                clearTimeout(timer)
+            timer = setTimeout(() => {
+                timer = null
+                cancel()
+                queue.fail(new Error("communication timeout"))
+            }, timeout)
+        }
+
+        /*  handle abort  */
+        const onAbort = () => {
+            cancel()
+            queue.fail(signal!.reason)
+        }
+        if (signal?.aborted) {
+            queue.fail(signal.reason)
+            return queue
+        }
+        signal?.addEventListener("abort", onAbort, { once: true })
+
+        /*  subscribe to MQTT response topic  */
+        this._responseSubscribe(stream, "stream-iteration-response", { qos: options.qos ?? 2 })
+
+        /*  register response handler to collect items  */
+        this.iterationCallback.set(rid, {
+            stream,
+            sent:     false,
+            producer: receiver,
+            callback: (err: Error | undefined, item: any, final: boolean) => {
+                if (err !== undefined) {
+                    cleanup()
+                    queue.fail(err)
+                }
+                else if (final) {
+                    cleanup()
+                    queue.end()
+                }
+                else {
+                    startTimer()
+                    queue.push(item)
+                }
+            }
+        })
+
+        /*  start inactivity timer (bounding the time the request is queued while offline,
+            and restarted once the request was actually sent)  */
+        startTimer()
+        this._whenOnline(() => {
+            const pending = this.iterationCallback.get(rid)
+            if (pending === undefined)
+                return
+            pending.sent = true
+            startTimer()
+        })
+
+        /*  generate message  */
+        const request = this.msg.makeStreamIterationRequest(rid, stream, params, this.options.id, receiver)
+
+        /*  publish message to MQTT topic  */
+        this._publishMessage(topic, request, { qos: 2, ...options }, (err?: Error) => {
+            /*  handle request failure (only if not already handled)  */
+            if (err) {
+                const pendingRequest = this.iterationCallback.get(rid)
+                if (pendingRequest !== undefined)
+                    pendingRequest.callback(err, undefined, true)
+            }
+        })
+
+        return queue
+    }
+
+    /*  dispatch message (Stream pattern handling)  */
+    protected _dispatchMessage (topic: string, parsed: any) {
+        super._dispatchMessage(topic, parsed)
+        const topicMatch = this.options.topicMatch(topic)
+        if (topicMatch !== null
+            && topicMatch.operation === "stream-iteration-request"
+            && (topicMatch.peerId === undefined || topicMatch.peerId === this.options.id)
+            && parsed instanceof StreamIterationRequest) {
+            /*  deliver stream request and send responses  */
+            const rid = parsed.id
+            const name = parsed.stream
+            const sender = parsed.sender
+            const handler = this.productions.get(name)
+
+            /*  ignore broadcast requests for streams not produced here
+                (received through wildcard subscriptions), as other peers may respond  */
+            if (handler === undefined && topicMatch.peerId === undefined)
+                return
+
+            if (sender === undefined) {
+                this._diagnose("message-rejected", new Error("invalid request: missing sender"),
+                    { category: "protocol", topic, message: parsed })
+                return
+            }
+
+            /*  generate corresponding MQTT topic  */
+            const responseTopic = this.options.topicMake(name, "stream-iteration-response", sender)
+
+            /*  utility function for sending a response message  */
+            const send = (item: any, error: ErrorInfo | undefined, final: boolean) => {
+                const response = this.msg.makeStreamIterationResponse(rid,
+                    item, error, final, this.options.id, sender)
+                return new Promise<void>((resolve, reject) => {
+                    this._publishMessage(responseTopic, response, { qos: 2 }, (err?: Error) => {
+                        if (err) reject(err)
+                        else     resolve()
+                    })
+                })
+            }
+
+            /*  execute stream handler and iterate over its items  */
+            const key = `${sender}:${rid}`
+            const controller = new AbortController()
+            this.iterationControllers.set(key, controller)
+            Promise.resolve().then(async () => {
+                if (handler === undefined)
+                    throw new Error(`stream not found: ${name}`)
+                const params = parsed.params ?? []
+                const info: InfoStream = { sender, signal: controller.signal }
+                if (parsed.receiver)
+                    info.receiver = parsed.receiver
+                const iterable = await handler(...params, info)
+                for await (const item of iterable) {
+                    if (controller.signal.aborted)
+                        break
+                    await send(item, undefined, false)
+                }
+                if (!controller.signal.aborted)
+                    await send(undefined, undefined, true)
+            }).catch((err: unknown) => {
+                /*  determine error information and send error response  */
+                if (controller.signal.aborted)
+                    return
+                return send(undefined, this._errorToInfo(err), true)
+            }).catch((err: Error) => {
+                this._diagnose("error", err, { category: "publication", topic, message: parsed, peerId: sender })
+            }).finally(() => {
+                this.iterationControllers.delete(key)
+            })
+        }
+        else if (topicMatch !== null
+            && topicMatch.operation === "stream-iteration-request"
+            && parsed instanceof StreamIterationCancel) {
+            /*  abort the corresponding stream handler  */
+            const key = `${parsed.sender}:${parsed.id}`
+            const controller = this.iterationControllers.get(key)
+            if (controller !== undefined) {
+                this.iterationControllers.delete(key)
+                controller.abort()
+            }
+        }
+        else if (topicMatch !== null
+            && topicMatch.operation === "stream-iteration-response"
+            && topicMatch.peerId === this.options.id
+            && parsed instanceof StreamIterationResponse) {
+            /*  handle stream response  */
+            const request = this.iterationCallback.get(parsed.id)
+            if (request !== undefined) {
+                /*  bind the iteration to the first responding producer and
+                    cancel the iterations of any further producers (in case of broadcast requests)  */
+                if (request.producer === undefined)
+                    request.producer = parsed.sender
+                else if (parsed.sender !== request.producer) {
+                    if (parsed.sender !== undefined && !parsed.final) {
+                        const topic = this.options.topicMake(request.stream, "stream-iteration-request", parsed.sender)
+                        const message = this.msg.makeStreamIterationCancel(parsed.id, request.stream,
+                            this.options.id, parsed.sender)
+                        this._publishMessage(topic, message, { qos: 2 })
+                    }
+                    return
+                }
+                if (parsed.error !== undefined)
+                    request.callback(this._errorFromInfo(parsed.error), undefined, true)
+                else
+                    request.callback(undefined, parsed.item, parsed.final ?? false)
+            }
+        }
+    }
+
+    /*  collect names of locally offered endpoints (Stream pattern handling)  */
+    protected _collectEndpoints (endpoints: PeerEndpoints) {
+        super._collectEndpoints(endpoints)
+        endpoints.streams.push(...this.productions.keys())
+    }
+
+    /*  fail pending stream iterations on a connection loss (Stream pattern handling)
+        (except for requests still queued while offline, as they are still sent later)  */
+    protected _connectionLost (err: Error) {
+        super._connectionLost(err)
+        for (const request of [ ...this.iterationCallback.values() ])
+            if (request.sent)
+                request.callback(err, undefined, false)
+    }
+
+    /*  settle all pending operations on destruction (Stream pattern handling)  */
+    protected async _destroy (err: Error) {
+        for (const request of [ ...this.iterationCallback.values() ])
+            request.callback(err, undefined, false)
+        for (const controller of this.iterationControllers.values())
+            controller.abort(err)
+        this.iterationControllers.clear()
+        this.productions.clear()
+        await super._destroy(err)
+    }
+
+    /*  reject message (Stream pattern handling)  */
+    protected _rejectMessage (topic: string, parsed: Message, err: Error) {
+        if (parsed instanceof StreamIterationRequest
+            && parsed.sender !== undefined
+            && (parsed.receiver === undefined || parsed.receiver === this.options.id)
+            && this.productions.has(parsed.stream)) {
+            /*  send error response  */
+            const response = this.msg.makeStreamIterationResponse(parsed.id,
+                undefined, this._errorToInfo(err), true, this.options.id, parsed.sender)
+            const responseTopic = this.options.topicMake(parsed.stream, "stream-iteration-response", parsed.sender)
+            this._publishMessage(responseTopic, response, { qos: 2 })
+        }
+        else
+            super._rejectMessage(topic, parsed, err)
+    }
+}
@@ -23,10 +23,13 @@
 */
 
 /*  built-in requirements  */
-import { Readable } from "node:stream"
+import { Readable,
+    Transform }       from "node:stream"
+import { createHash } from "node:crypto"
+import * as zlib      from "node:zlib"
 
 /*  external requirements  */
-import PLazy        from "p-lazy"
+import PLazy          from "p-lazy"
 
 /*  concatenate elements of an Uint8Array array  */
 function uint8ArrayConcat (arrays: Uint8Array[]) {
@@ -40,6 +43,16 @@ function uint8ArrayConcat (arrays: Uint8Array[]) {
     return result
 }
 
+/*  determine delay before a retry attempt (exponential backoff with jitter)  */
+export function retryDelay (
+    policy:  { delay: number, factor: number, maxDelay: number, jitter: number },
+    attempt: number
+) {
+    const delay  = Math.min(policy.delay * Math.pow(policy.factor, attempt - 1), policy.maxDelay)
+    const jitter = delay * policy.jitter * (Math.random() * 2 - 1)
+    return Math.max(0, Math.round(delay + jitter))
+}
+
 /*  utility function for collecting stream chunks into a buffer  */
 export function streamToBuffer (stream: Readable): Promise<Uint8Array> {
     return new PLazy<Uint8Array>((resolve, reject) => {
@@ -71,55 +84,666 @@ function chunkToBuffer (chunk: unknown): Uint8Array {
     return buffer
 }
 
-/*  callback type for sending chunks  */
+/*  callback type for sending chunks (resolving once the chunk was sent)  */
 export type SendChunkCallback = (
     chunk: Uint8Array | undefined,
     error: string | undefined,
     final: boolean
-) => void
+) => Promise<void>
 
 /*  utility function for sending a buffer as chunks  */
-export function sendBufferAsChunks (
+export async function sendBufferAsChunks (
     buffer:    Uint8Array,
     chunkSize: number,
     sendChunk: SendChunkCallback
-): void {
+): Promise<void> {
     if (buffer.byteLength === 0) {
         /*  handle empty buffer by sending final chunk  */
-        sendChunk(undefined, undefined, true)
+        await sendChunk(undefined, undefined, true)
     }
     else {
         for (let i = 0; i < buffer.byteLength; i += chunkSize) {
             const size  = Math.min(buffer.byteLength - i, chunkSize)
-            const chunk = buffer.subarray(i, i + size)
+            const chunk = chunkToBuffer(buffer.subarray(i, i + size))
             const final = (i + size >= buffer.byteLength)
-            sendChunk(chunk, undefined, final)
+            await sendChunk(chunk, undefined, final)
         }
     }
 }
 
-/*  utility function for sending a Readable stream as chunks  */
-export function sendStreamAsChunks (
+/*  utility function for sending a Readable stream as chunks
+    (reading from the stream only as fast as the chunks are sent)  */
+export async function sendStreamAsChunks (
     readable:  Readable,
     chunkSize: number,
-    sendChunk: SendChunkCallback,
-    onEnd:     () => void,
-    onError:   (err: Error) => void
-): void {
-    readable.on("readable", () => {
-        let chunk: unknown
-        while ((chunk = readable.read(chunkSize)) !== null) {
-            const buffer = chunkToBuffer(chunk)
-            sendChunk(buffer, undefined, false)
+    sendChunk: SendChunkCallback
+): Promise<void> {
+    let pending = new Uint8Array(0)
+    for await (const data of readable) {
+        pending = uint8ArrayConcat([ pending, chunkToBuffer(data) ])
+        while (pending.byteLength >= chunkSize) {
+            await sendChunk(pending.subarray(0, chunkSize), undefined, false)
+            pending = pending.subarray(chunkSize)
         }
+    }
+    if (pending.byteLength > 0)
+        await sendChunk(pending, undefined, false)
+    await sendChunk(undefined, undefined, true)
+}
+
+/*  the compression encodings supported by the zlib implementation
+    (where the zlib polyfill of the browser build lacks brotli)  */
+export const compressionEncodings: ("gzip" | "deflate" | "brotli")[] =
+    typeof zlib.createBrotliCompress === "function"
+        ? [ "gzip", "deflate", "brotli" ]
+        : [ "gzip", "deflate" ]
+
+/*  compress data asynchronously (as a self-contained frame, i.e., decompressible on its own)  */
+export function compress (encoding: "gzip" | "deflate" | "brotli", data: Uint8Array): Promise<Uint8Array> {
+    if (encoding === "gzip")
+        return zlibOnce(zlib.gzip, data)
+    else if (encoding === "deflate")
+        return zlibOnce(zlib.deflate, data)
+    else
+        return zlibOnce(zlib.brotliCompress, data)
+}
+
+/*  decompress data asynchronously (of a self-contained frame)  */
+export function decompress (encoding: "gzip" | "deflate" | "brotli", data: Uint8Array): Promise<Uint8Array> {
+    if (encoding === "gzip")
+        return zlibOnce(zlib.gunzip, data)
+    else if (encoding === "deflate")
+        return zlibOnce(zlib.inflate, data)
+    else
+        return zlibOnce(zlib.brotliDecompress, data)
+}
+
+/*  run an asynchronous one-shot zlib function  */
+function zlibOnce (
+    fn:   (data: Uint8Array, callback: (err: Error | null, result: Buffer) => void) => void,
+    data: Uint8Array
+): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+        fn(data, (err, result) => {
+            if (err) reject(err)
+            else     resolve(new Uint8Array(result.buffer, result.byteOffset, result.byteLength))
+        })
     })
-    readable.on("end", () => {
-        sendChunk(undefined, undefined, true)
-        onEnd()
-    })
-    readable.on("error", (err: Error) => {
-        sendChunk(undefined, err.message, true)
-        onError(err)
-    })
 }
 
+/*  compression or decompression of a sequence of frames through a single zlib stream
+    (where each frame is flushed, so it can be decompressed as soon as it and all its predecessors
+    were received, while all frames share the compression dictionary of the stream)  */
+export class ZlibFramer {
+    private stream: Transform & zlib.Zlib
+    private flushKind: number
+    private output: Buffer[] = []
+    private error: Error | null = null
+    private failPending: ((err: Error) => void) | null = null
+
+    constructor (mode: "compress" | "decompress", encoding: "gzip" | "deflate" | "brotli") {
+        if (encoding === "brotli") {
+            this.stream    = mode === "compress" ? zlib.createBrotliCompress() : zlib.createBrotliDecompress()
+            this.flushKind = zlib.constants.BROTLI_OPERATION_FLUSH
+        }
+        else {
+            if (encoding === "gzip")
+                this.stream = mode === "compress" ? zlib.createGzip() : zlib.createGunzip()
+            else
+                this.stream = mode === "compress" ? zlib.createDeflate() : zlib.createInflate()
+            this.flushKind = zlib.constants?.Z_SYNC_FLUSH ?? 2
+        }
+        this.stream.on("data", (data: Buffer) => { this.output.push(data) })
+        this.stream.on("error", (err: Error) => {
+            this.error = err
+            this.failPending?.(err)
+        })
+    }
+
+    /*  pass a frame through the stream (where frames have to be passed one after another)  */
+    frame (data: Uint8Array): Promise<Uint8Array> {
+        return new Promise((resolve, reject) => {
+            if (this.error !== null) {
+                reject(this.error)
+                return
+            }
+            this.failPending = reject
+            this.stream.write(data)
+            this.stream.flush(this.flushKind, () => {
+                this.failPending = null
+                if (this.error !== null) {
+                    reject(this.error)
+                    return
+                }
+                const result = Buffer.concat(this.output)
+                this.output = []
+                resolve(new Uint8Array(result.buffer, result.byteOffset, result.byteLength))
+            })
+        })
+    }
+
+    /*  release the stream  */
+    close (): void {
+        this.stream.close()
+    }
+}
+
+/*  lookup table for CRC32 (IEEE 802.3 polynomial)  */
+const crc32Table = Array.from({ length: 256 }, (_, n) => {
+    let c = n
+    for (let k = 0; k < 8; k++)
+        c = (c & 1) ? (0xedb88320 ^ (c >>> 1)) : (c >>> 1)
+    return c >>> 0
+})
+
+/*  incremental computation of an integrity checksum (SHA-256 or CRC32) in hexadecimal notation  */
+class Checksum {
+    private hash: ReturnType<typeof createHash> | null
+    private crc = 0xffffffff
+
+    constructor (algorithm: "sha256" | "crc32") {
+        this.hash = algorithm === "sha256" ? createHash("sha256") : null
+    }
+
+    /*  add data to the checksum  */
+    update (data: Uint8Array): this {
+        if (this.hash !== null)
+            this.hash.update(data)
+        else {
+            let crc = this.crc
+            for (let i = 0; i < data.byteLength; i++)
+                crc = crc32Table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+            this.crc = crc
+        }
+        return this
+    }
+
+    /*  provide the checksum of all added data  */
+    digest (): string {
+        if (this.hash !== null)
+            return this.hash.digest("hex")
+        return ((this.crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, "0")
+    }
+}
+
+/*  utility class for running steps in order, where a step runs immediately as long as
+    no asynchronous step is pending, and else once all previous steps finished
+    (where the steps themselves have to handle all of their failures)  */
+export class OrderedRunner {
+    private pending: Promise<void> | null = null
+
+    /*  run a step (synchronous or asynchronous)  */
+    run (step: () => Promise<void> | void): void {
+        if (this.pending === null) {
+            const result = step()
+            if (result !== undefined)
+                this.track(result)
+        }
+        else
+            this.track(this.pending.then(step))
+    }
+
+    /*  track the last pending step  */
+    private track (promise: Promise<void>) {
+        const pending: Promise<void> = promise.finally(() => {
+            if (this.pending === pending)
+                this.pending = null
+        })
+        this.pending = pending
+    }
+}
+
+/*  sender side of the sequencing of chunks: provides the sequence number,
+    the total size, (optionally) the integrity checksums and (optionally)
+    the compressed data of each chunk (where size and checksums refer to the uncompressed data,
+    and where all chunks are compressed as frames of a single stream)  */
+export class ChunkStamper {
+    private seq  = 0
+    private size = 0
+    private checksum: Checksum | null
+    private framer: ZlibFramer | null = null
+
+    constructor (
+        private algorithm: "none" | "sha256" | "crc32",
+        private chunks:    boolean,
+        private encoding?: "gzip" | "deflate" | "brotli"
+    ) {
+        this.checksum = algorithm !== "none" ? new Checksum(algorithm) : null
+    }
+
+    /*  stamp the next chunk (where only the final chunk of a successful transfer carries the digest,
+        and where chunks have to be stamped one after another)  */
+    async stamp (chunk: Uint8Array | undefined, final: boolean, error: string | undefined) {
+        const seq = this.seq++
+        let checksum: string | undefined
+        let encoding: "gzip" | "deflate" | "brotli" | undefined
+        let data = chunk
+        if (chunk !== undefined) {
+            this.size += chunk.byteLength
+            this.checksum?.update(chunk)
+            if (this.algorithm !== "none" && this.chunks)
+                checksum = new Checksum(this.algorithm).update(chunk).digest()
+            if (this.encoding !== undefined) {
+                this.framer ??= new ZlibFramer("compress", this.encoding)
+                data     = await this.framer.frame(chunk)
+                encoding = this.encoding
+            }
+        }
+        if (final)
+            this.close()
+        return {
+            seq,
+            chunk:     data,
+            encoding,
+            size:      final ? this.size : undefined,
+            integrity: seq === 0 && this.algorithm !== "none" ? this.algorithm : undefined,
+            checksum,
+            digest:    final && error === undefined ? this.checksum?.digest() : undefined
+        }
+    }
+
+    /*  release the compression stream (if any)  */
+    close (): void {
+        this.framer?.close()
+        this.framer = null
+    }
+}
+
+/*  restrict the data of a stream to a byte range  */
+export function sliceStream (readable: Readable, offset: number, length?: number): Readable {
+    const end = length !== undefined ? offset + length : Infinity
+    return Readable.from((async function * () {
+        let position = 0
+        for await (const data of readable) {
+            const chunk = chunkToBuffer(data)
+            const from  = Math.max(offset - position, 0)
+            const to    = Math.min(end - position, chunk.byteLength)
+            position += chunk.byteLength
+            if (from < to)
+                yield chunk.subarray(from, to)
+            if (position >= end)
+                break
+        }
+    })(), { objectMode: false })
+}
+
+/*  utility class for the sending side of a credit-based flow control
+    (where each receiving peer grants the total number of chunks it accepts,
+    and where a lenient window gates chunks only once any peer granted credit at all)  */
+export class CreditWindow {
+    private sent    = 0
+    private credits = new Map<string, number>()
+    private waiter: { resolve: () => void, reject: (err: Error) => void } | null = null
+
+    constructor (
+        private window:  number,
+        private lenient: boolean = false
+    ) {}
+
+    /*  receive a credit grant of a peer  */
+    grant (peerId: string, credit: number): void {
+        if (credit <= (this.credits.get(peerId) ?? 0))
+            return
+        this.credits.set(peerId, credit)
+        if (this.waiter !== null && this.sent < this.allowed()) {
+            const waiter = this.waiter
+            this.waiter = null
+            waiter.resolve()
+        }
+    }
+
+    /*  acquire the credit for sending a chunk (waiting at most the given time)  */
+    async acquire (timeout: number): Promise<void> {
+        if (this.sent >= this.allowed() && !(this.lenient && this.credits.size === 0)) {
+            await new Promise<void>((resolve, reject) => {
+                const timer = setTimeout(() => {
+                    this.waiter = null
+                    reject(new Error("communication timeout"))
+                }, timeout)
+                this.waiter = {
+                    resolve: ()           => { clearTimeout(timer); resolve() },
+                    reject:  (err: Error) => { clearTimeout(timer); reject(err) }
+                }
+            })
+        }
+        this.sent++
+    }
+
+    /*  fail a pending acquisition  */
+    fail (err: Error): void {
+        const waiter = this.waiter
+        this.waiter = null
+        waiter?.reject(err)
+    }
+
+    /*  determine the number of chunks allowed in total
+        (initially the window, afterwards limited by the slowest granting peer)  */
+    private allowed (): number {
+        return this.credits.size === 0 ? this.window : Math.min(...this.credits.values())
+    }
+}
+
+/*  utility class for the receiving side of a credit-based flow control
+    (where further credit is granted only once all readables accept more data)  */
+export class CreditReceiver {
+    public readables: Readable[]
+    private received = 0
+    private credit   = 0
+    private blocked  = new Set<Readable>()
+    private done     = false
+
+    constructor (
+        count:         number,
+        private window: number,
+        private grant:  (credit: number) => void
+    ) {
+        this.readables = Array.from({ length: count }, () => {
+            const readable: Readable = new Readable({ read: () => { this.drain(readable) } })
+            return readable
+        })
+    }
+
+    /*  receive a chunk (and the end of chunks)  */
+    push (chunk: Uint8Array | undefined, final: boolean | undefined): void {
+        if (chunk !== undefined) {
+            this.received++
+            for (const readable of this.readables)
+                if (!readable.push(chunk))
+                    this.blocked.add(readable)
+        }
+        if (final) {
+            this.done = true
+            for (const readable of this.readables)
+                readable.push(null)
+            return
+        }
+        this.replenish()
+    }
+
+    /*  restart the counting of chunks (for a subsequent transfer into the same readables)  */
+    restart (): void {
+        this.received = 0
+        this.credit   = 0
+    }
+
+    /*  determine whether granted chunks are still outstanding  */
+    pending (): boolean {
+        return this.received < this.credit
+    }
+
+    /*  fail all readables  */
+    destroy (err: Error): void {
+        this.done = true
+        for (const readable of this.readables)
+            readable.destroy(err)
+    }
+
+    /*  handle a readable requesting more data  */
+    private drain (readable: Readable): void {
+        if (this.blocked.delete(readable))
+            this.replenish()
+    }
+
+    /*  grant further credit once half of the window is used up  */
+    private replenish (): void {
+        if (this.done || this.blocked.size > 0 || this.credit - this.received > this.window / 2)
+            return
+        this.credit = this.received + this.window
+        this.grant(this.credit)
+    }
+}
+
+/*  receiver side of the sequencing of chunks: reorders chunks by their
+    sequence number, decompresses them and detects duplicate, missing, truncated and corrupted chunks
+    (chunks without a sequence number are taken as the next expected one, and the chunks in sequence
+    are decompressed as frames of a single stream and verified asynchronously, but still in sequence)  */
+export class ChunkSequencer<T extends {
+    seq?: number, chunk?: Uint8Array, encoding?: "gzip" | "deflate" | "brotli", final?: boolean, size?: number,
+    integrity?: "sha256" | "crc32", checksum?: string, digest?: string
+}> {
+    private expected  = 0
+    private received  = 0
+    private pending   = new Map<number, T>()
+    private algorithm: "sha256" | "crc32" | null = null
+    private checksum: Checksum | null = null
+    private framer: ZlibFramer | null = null
+    private processing = Promise.resolve()
+    private failure: Error | null = null
+
+    constructor (
+        private limit: number
+    ) {}
+
+    /*  accept a chunk and provide all chunks which are now in sequence  */
+    accept (item: T): Promise<T[]> {
+        const seq = item.seq ?? this.expected
+        if (seq < this.expected || this.pending.has(seq))
+            return Promise.reject(new Error(`duplicate resource chunk #${seq}`))
+        this.pending.set(seq, item)
+        const items: { seq: number, item: T }[] = []
+        for (let next = this.pending.get(this.expected); next !== undefined; next = this.pending.get(this.expected)) {
+            const seq = this.expected++
+            this.pending.delete(seq)
+            items.push({ seq, item: next })
+        }
+        if (this.pending.size > this.limit)
+            return Promise.reject(new Error(`missing resource chunk #${this.expected}`))
+        const result = this.processing.then(async () => {
+            if (this.failure !== null)
+                throw this.failure
+            for (const { seq, item } of items)
+                await this.verify(seq, item)
+            return items.map(({ item }) => item)
+        })
+        this.processing = result.then(() => {}, (err: Error) => {
+            this.failure = err
+            this.close()
+        })
+        return result
+    }
+
+    /*  decompress and verify a chunk in sequence  */
+    private async verify (seq: number, next: T) {
+        if (next.integrity !== undefined) {
+            this.algorithm = next.integrity
+            this.checksum  = new Checksum(next.integrity)
+        }
+        if (next.chunk !== undefined) {
+            if (next.encoding !== undefined) {
+                try {
+                    this.framer ??= new ZlibFramer("decompress", next.encoding)
+                    next.chunk = await this.framer.frame(next.chunk)
+                }
+                catch (_err: unknown) {
+                    throw new Error(`resource chunk #${seq} decompression failed`)
+                }
+                next.encoding = undefined
+            }
+            if (next.checksum !== undefined && this.algorithm !== null
+                && new Checksum(this.algorithm).update(next.chunk).digest() !== next.checksum)
+                throw new Error(`resource chunk #${seq} checksum mismatch`)
+            this.checksum?.update(next.chunk)
+            this.received += next.chunk.byteLength
+        }
+        if (next.final && next.size !== undefined && next.size !== this.received)
+            throw new Error(`resource size mismatch (expected ${next.size} bytes, received ${this.received} bytes)`)
+        if (next.final && next.digest !== undefined && this.checksum !== null
+            && this.checksum.digest() !== next.digest)
+            throw new Error("resource digest mismatch")
+        if (next.final)
+            this.close()
+    }
+
+    /*  release the decompression stream (if any)  */
+    close (): void {
+        this.framer?.close()
+        this.framer = null
+    }
+
+    /*  determine the sequence number of a missing chunk (if any later chunk was received)  */
+    missing (): number | undefined {
+        return this.pending.size > 0 ? this.expected : undefined
+    }
+}
+
+/*  check whether a name contains wildcards ("+", "#" or ":name" segments)  */
+export function patternHasWildcards (pattern: string) {
+    return pattern.split("/").some((segment) =>
+        segment === "+" || segment === "#" || segment.startsWith(":"))
+}
+
+/*  convert a name pattern into an MQTT topic filter  */
+export function patternToFilter (pattern: string) {
+    return pattern.split("/").map((segment) =>
+        segment.startsWith(":") ? "+" : segment).join("/")
+}
+
+/*  match a name against a pattern and extract its named segments  */
+export function patternMatch (pattern: string, name: string): Record<string, string> | null {
+    const p = pattern.split("/")
+    const n = name.split("/")
+    const segments: Record<string, string> = {}
+    for (let i = 0; i < p.length; i++) {
+        if (p[i] === "#")
+            return segments
+        if (i >= n.length)
+            return null
+        if (p[i].startsWith(":"))
+            segments[p[i].substring(1)] = n[i]
+        else if (p[i] !== "+" && p[i] !== n[i])
+            return null
+    }
+    return p.length === n.length ? segments : null
+}
+
+/*  utility class for a cache bounded by both size and time-to-live  */
+export class DedupCache<V> {
+    private entries = new Map<string, { value: V, expires: number }>()
+
+    constructor (
+        private size: number,
+        private ttl:  number
+    ) {}
+
+    /*  retrieve a (still valid) entry  */
+    get (key: string): V | undefined {
+        const entry = this.entries.get(key)
+        if (entry === undefined)
+            return undefined
+        if (entry.expires <= Date.now()) {
+            this.entries.delete(key)
+            return undefined
+        }
+        return entry.value
+    }
+
+    /*  store an entry (and evict expired and oldest entries)  */
+    set (key: string, value: V): void {
+        const now = Date.now()
+        this.entries.delete(key)
+        for (const [ k, entry ] of this.entries) {
+            if (entry.expires > now && this.entries.size < this.size)
+                break
+            this.entries.delete(k)
+        }
+        this.entries.set(key, { value, expires: now + this.ttl })
+    }
+
+    /*  remove an entry  */
+    delete (key: string): void {
+        this.entries.delete(key)
+    }
+}
+
+/*  overflow policy of a bounded queue  */
+export type QueueOverflow = "drop-oldest" | "drop-newest" | "error"
+
+/*  utility class for an asynchronous iterator fed by pushing items  */
+export class IterableQueue<T> implements AsyncIterableIterator<T> {
+    private items:   T[] = []
+    private waiters: {
+        resolve: (result: IteratorResult<T>) => void,
+        reject:  (err: Error) => void
+    }[] = []
+    private error:   Error | null = null
+    private done     = false
+
+    constructor (
+        private onReturn: () => void | Promise<void> = () => {},
+        private size:     number        = Infinity,
+        private overflow: QueueOverflow = "error"
+    ) {}
+
+    /*  producer side: provide next item  */
+    push (item: T): void {
+        if (this.done)
+            return
+        const waiter = this.waiters.shift()
+        if (waiter !== undefined)
+            waiter.resolve({ value: item, done: false })
+        else if (this.items.length < this.size)
+            this.items.push(item)
+        else if (this.overflow === "drop-oldest") {
+            this.items.shift()
+            this.items.push(item)
+        }
+        else if (this.overflow === "error") {
+            /*  fail after delivering the already queued items and stop producing  */
+            this.fail(new Error("queue overflow"))
+            Promise.resolve(this.onReturn()).catch(() => {})
+        }
+    }
+
+    /*  producer side: signal end of items  */
+    end (): void {
+        if (this.done)
+            return
+        this.done = true
+        for (const waiter of this.waiters.splice(0))
+            waiter.resolve({ value: undefined, done: true })
+    }
+
+    /*  producer side: signal failure  */
+    fail (err: Error): void {
+        if (this.done)
+            return
+        this.done  = true
+        this.error = err
+        for (const waiter of this.waiters.splice(0))
+            waiter.reject(err)
+    }
+
+    /*  consumer side: fetch next item  */
+    next (): Promise<IteratorResult<T>> {
+        if (this.items.length > 0)
+            return Promise.resolve({ value: this.items.shift()!, done: false })
+        else if (this.error !== null) {
+            const err = this.error
+            this.error = null
+            return Promise.reject(err)
+        }
+        else if (this.done)
+            return Promise.resolve({ value: undefined, done: true })
+        return new Promise((resolve, reject) => {
+            this.waiters.push({ resolve, reject })
+        })
+    }
+
+    /*  consumer side: stop iteration prematurely  */
+    async return (): Promise<IteratorResult<T>> {
+        const stopping = !this.done
+        this.done  = true
+        this.items = []
+        this.error = null
+        for (const waiter of this.waiters.splice(0))
+            waiter.resolve({ value: undefined, done: true })
+        if (stopping)
+            await this.onReturn()
+        return { value: undefined, done: true }
+    }
+
+    /*  support the async iteration protocol  */
+    [Symbol.asyncIterator] (): AsyncIterableIterator<T> {
+        return this
+    }
+}
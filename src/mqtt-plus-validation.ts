@@ -0,0 +1,140 @@
+/*
+**  MQTT+ -- MQTT Communication Patterns
+**  Copyright (c) 2018-2026 Dr. Ralf S. Engelschall <rse@engelschall.com>
+**
+**  Permission is hereby granted, free of charge, to any person obtaining
+**  a copy of this software and associated documentation files (the
+**  "Software"), to deal in the Software without restriction, including
+**  without limitation the rights to use, copy, modify, merge, publish,
+**  distribute, sublicense, and/or sell copies of the Software, and to
+**  permit persons to whom the Software is furnished to do so, subject to
+**  the following conditions:
+**
+**  The above copyright notice and this permission notice shall be included
+**  in all copies or substantial portions of the Software.
+**
+**  THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+**  EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+**  MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+**  IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY
+**  CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT,
+**  TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE
+**  SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+*/
+
+/*  internal requirements  */
+import { APISchema,
+    APIEndpointSchema,
+    StandardSchema }                  from "./mqtt-plus-api"
+import { EventEmission,
+    StateUpdate,
+    ServiceCallRequest,
+    ServiceCallResponse,
+    StreamIterationRequest,
+    StreamIterationResponse,
+    ResourceTransferRequest,
+    ResourceTransferResponse }        from "./mqtt-plus-msg"
+import { APIOptionsPartial }          from "./mqtt-plus-options"
+import type { MqttClientAPI }         from "./mqtt-plus-base"
+import { ValidationError }            from "./mqtt-plus-error"
+import { MiddlewareTrait,
+    MiddlewareContext }               from "./mqtt-plus-middleware"
+
+/*  Validation Trait  */
+export class ValidationTrait<T extends APISchema = APISchema> extends MiddlewareTrait<T> {
+    /*  construct API class  */
+    constructor (
+        mqtt: MqttClientAPI | null,
+        options: APIOptionsPartial = {}
+    ) {
+        super(mqtt, options)
+
+        /*  validate messages against the runtime schema (via built-in middleware)  */
+        if (this.options.schema !== undefined) {
+            this.use({
+                inbound: async (ctx, next) => {
+                    await this._validateRequest(ctx)
+                    await this._validateResponse(ctx)
+                    await next()
+                },
+                outbound: async (ctx, next) => {
+                    await this._validateRequest(ctx)
+                    await next()
+                }
+            })
+        }
+    }
+
+    /*  determine runtime schema of endpoint  */
+    private _endpointSchema<K extends APIEndpointSchema["kind"]> (name: string | undefined, kind: K) {
+        const endpoint = name !== undefined ? this.options.schema?.[name] : undefined
+        return endpoint?.kind === kind ? endpoint as Extract<APIEndpointSchema, { kind: K }> : undefined
+    }
+
+    /*  validate a value against a runtime schema  */
+    private async _validateValue (schema: StandardSchema, value: unknown, what: string) {
+        const result = await schema["~standard"].validate(value)
+        if (result.issues !== undefined)
+            throw new ValidationError(`invalid ${what}: ${result.issues.map((issue) => issue.message).join(", ")}`,
+                { issues: result.issues })
+        return result.value
+    }
+
+    /*  validate parameters of requests and values of states (failures reject the message)  */
+    private async _validateRequest (ctx: MiddlewareContext) {
+        const message = ctx.message
+        if (message instanceof StateUpdate) {
+            const endpoint = this._endpointSchema(message.state, "state")
+            if (endpoint !== undefined)
+                message.value = await this._validateValue(endpoint.value,
+                    message.value, `value of "${message.state}"`)
+            return
+        }
+        let name: string
+        let endpoint: APIEndpointSchema | undefined
+        if (message instanceof EventEmission)
+            endpoint = this._endpointSchema(name = message.event, "event")
+        else if (message instanceof ServiceCallRequest)
+            endpoint = this._endpointSchema(name = message.service, "service")
+        else if (message instanceof StreamIterationRequest)
+            endpoint = this._endpointSchema(name = message.stream, "stream")
+        else if (message instanceof ResourceTransferRequest
+            || (message instanceof ResourceTransferResponse && message.params !== undefined))
+            endpoint = this._endpointSchema(name = message.resource!, "resource")
+        else
+            return
+        if (endpoint !== undefined)
+            message.params = await this._validateValue(endpoint.params,
+                message.params ?? [], `parameters of "${name}"`) as any[]
+    }
+
+    /*  validate results of responses (failures turn the message into an error response)  */
+    private async _validateResponse (ctx: MiddlewareContext) {
+        const message = ctx.message
+        const name = this.options.topicMatch(ctx.topic)?.name
+        if (message instanceof ServiceCallResponse && message.error === undefined) {
+            const schema = this._endpointSchema(name, "service")?.result
+            if (schema !== undefined) {
+                try {
+                    message.result = await this._validateValue(schema, message.result, `result of "${name}"`)
+                }
+                catch (err: unknown) {
+                    ctx.message = this.msg.makeServiceCallResponse(message.id, undefined,
+                        this._errorToInfo(err), message.sender, message.receiver)
+                }
+            }
+        }
+        else if (message instanceof StreamIterationResponse && message.error === undefined && !message.final) {
+            const schema = this._endpointSchema(name, "stream")?.item
+            if (schema !== undefined) {
+                try {
+                    message.item = await this._validateValue(schema, message.item, `item of "${name}"`)
+                }
+                catch (err: unknown) {
+                    ctx.message = this.msg.makeStreamIterationResponse(message.id, undefined,
+                        this._errorToInfo(err), true, message.sender, message.receiver)
+                }
+            }
+        }
+    }
+}
@@ -24,13 +24,45 @@
 
 /*  import necessary types  */
 import type { APISchema } from "./mqtt-plus-api"
-import { ResourceTrait }  from "./mqtt-plus-resource"
+import { PresenceTrait }  from "./mqtt-plus-presence"
+import { RemoteError,
+    ValidationError }     from "./mqtt-plus-error"
+import { LoopbackBroker } from "./mqtt-plus-loopback"
 
 /*  re-export most important types  */
 export type *             from "./mqtt-plus-api"
 export type *             from "./mqtt-plus-info"
+export type { ErrorInfo,
+    Message }             from "./mqtt-plus-msg"
+export type { TopicMake,
+    TopicMatch,
+    RetryPolicy,
+    IntegrityPolicy,
+    CompressionPolicy,
+    OfflinePolicy,
+    OfflineStore,
+    OfflineEntry }        from "./mqtt-plus-options"
+export type { MqttClientAPI } from "./mqtt-plus-base"
+export type { Diagnostic,
+    DiagnosticCategory,
+    DiagnosticEvents }    from "./mqtt-plus-diagnostic"
+export type { Middleware,
+    MiddlewareContext }   from "./mqtt-plus-middleware"
+export type { RemoteError,
+    ValidationError,
+    ErrorClass }          from "./mqtt-plus-error"
+export type { LoopbackBroker,
+    LoopbackClient }      from "./mqtt-plus-loopback"
+export type { Peer }      from "./mqtt-plus-presence"
 
 /*  export the default API class  */
 export default class MQTTp<T extends APISchema = APISchema>
-    extends ResourceTrait<T> {}
+    extends PresenceTrait<T> {
+    /*  provide error classes for remote errors and validation errors and the
+        in-memory MQTT broker for testing (as static properties, in order
+        to keep the default export the one and only export)  */
+    static RemoteError     = RemoteError
+    static ValidationError = ValidationError
+    static LoopbackBroker  = LoopbackBroker
+}
 
@@ -41,8 +41,14 @@ import MQTT             from "mqtt"
 /*  internal dependencies  */
 import MQTTp            from "mqtt-plus"
 import type { Event,
-    Service, Resource,
-    InfoResource }      from "mqtt-plus"
+    State,
+    Service, Stream, Resource,
+    InfoService,
+    InfoResource,
+    StandardSchema,
+    InferAPI,
+    Diagnostic,
+    OfflineEntry }      from "mqtt-plus"
 
 /*  setup test suite infrastructure  */
 chai.config.includeStack = true
@@ -53,7 +59,12 @@ const { expect } = chai
 type API = {
     "example/server/connection":       Event<(state: "open" | "close") => void>
     "example/server/sample":           Event<(a1: string, a2: number) => void>
+    "example/sensor/kitchen/temp":     Event<(value: number) => void>
+    "example/sensor/bath/temp":        Event<(value: number) => void>
+    "example/server/status":           State<{ mode: string, load: number }>
     "example/server/hello":            Service<(a1: string, a2: number) => string>
+    "example/server/slow":             Service<(ms: number) => Promise<string>>
+    "example/server/count":            Stream<(n: number) => AsyncIterable<number>>
     "example/server/upload":           Resource<(name: string) => void>
     "example/server/download":         Resource<(filename: string) => void>
     "example/server/download-invalid": Resource<(filename: string) => void>
@@ -71,10 +82,20 @@ const ACL = textframe(`
 
     #   client -> server
     topic   write     example/server/+/event-emission/+
+    pattern read      example/server/+/event-acknowledgement/%c
 
     #   client <- server
     topic   read      example/client/+/event-emission/any
     pattern read      example/client/+/event-emission/%c
+    topic   write     example/client/+/event-acknowledgement/+
+
+    #   ---- state update ----
+
+    #   client -> server
+    topic   readwrite example/client/+/state-update/any
+
+    #   client <- server
+    topic   read      example/server/+/state-update/any
 
     #   ---- service call ----
 
@@ -87,17 +108,37 @@ const ACL = textframe(`
     pattern read      example/client/+/service-call-request/%c
     pattern write     example/client/+/service-call-response/%c
 
+    #   ---- stream iteration ----
+
+    #   client -> server
+    topic   write     example/server/+/stream-iteration-request/+
+    pattern read      example/server/+/stream-iteration-response/%c
+
+    #   client <- server
+    topic   read      example/client/+/stream-iteration-request/any
+    pattern read      example/client/+/stream-iteration-request/%c
+    pattern write     example/client/+/stream-iteration-response/%c
+
     #   ---- resource transfer ----
 
     #   client -> server
     topic   write     example/server/+/resource-transfer-request/+
     topic   write     example/server/+/resource-transfer-response/+
     pattern read      example/server/+/resource-transfer-response/%c
+    topic   write     example/server/+/resource-transfer-credit/+
+    pattern read      example/server/+/resource-transfer-credit/%c
 
     #   client <- server
     topic   read      example/client/+/resource-transfer-request/+
     topic   read      example/client/+/resource-transfer-response/+
     pattern write     example/client/+/resource-transfer-response/%c
+    topic   write     example/client/+/resource-transfer-credit/+
+    pattern read      example/client/+/resource-transfer-credit/%c
+
+    #   ---- peer presence ----
+
+    topic   read      mqtt-plus/peer-presence/+
+    pattern write     mqtt-plus/peer-presence/%c
 
     #   ==== server/autenticated ACL ====
 
@@ -109,9 +150,19 @@ const ACL = textframe(`
     topic   read      example/server/+/event-emission/any
     pattern read      example/server/+/event-emission/%c
     topic   read      $share/server/example/server/+/event-emission/any
+    topic   write     example/server/+/event-acknowledgement/+
 
     #   client <- server
     topic   write     example/client/+/event-emission/+
+    pattern read      example/client/+/event-acknowledgement/%c
+
+    #   ---- state update ----
+
+    #   client -> server
+    topic   read      example/client/+/state-update/any
+
+    #   client <- server
+    topic   readwrite example/server/+/state-update/any
 
     #   ---- service call ----
 
@@ -125,6 +176,18 @@ const ACL = textframe(`
     topic   write     example/client/+/service-call-request/+
     pattern read      example/client/+/service-call-response/%c
 
+    #   ---- stream iteration ----
+
+    #   client -> server
+    topic   read      example/server/+/stream-iteration-request/any
+    topic   read      $share/server/example/server/+/stream-iteration-request/any
+    pattern read      example/server/+/stream-iteration-request/%c
+    pattern write     example/server/+/stream-iteration-response/+
+
+    #   client <- server
+    topic   write     example/client/+/stream-iteration-request/+
+    pattern read      example/client/+/stream-iteration-response/%c
+
     #   ---- resource transfer ----
 
     #   client -> server
@@ -135,11 +198,20 @@ const ACL = textframe(`
     topic   read      example/server/+/resource-transfer-response/any
     topic   read      $share/server/example/server/+/resource-transfer-response/any
     pattern read      example/server/+/resource-transfer-response/%c
+    topic   write     example/server/+/resource-transfer-credit/+
+    pattern read      example/server/+/resource-transfer-credit/%c
 
     #   client <- server
     topic   write     example/client/+/resource-transfer-request/+
     topic   write     example/client/+/resource-transfer-response/+
     pattern read      example/client/+/resource-transfer-response/%c
+    topic   write     example/client/+/resource-transfer-credit/+
+    pattern read      example/client/+/resource-transfer-credit/%c
+
+    #   ---- peer presence ----
+
+    topic   read      mqtt-plus/peer-presence/+
+    pattern write     mqtt-plus/peer-presence/%c
 `)
 
 /*  test suite  */
@@ -188,6 +260,10 @@ describe("MQTT+ Library", function () {
 
         expect(mqttpC).to.respondTo("register")
         expect(mqttpC).to.respondTo("call")
+        expect(mqttpC).to.respondTo("callAll")
+
+        expect(mqttpC).to.respondTo("produce")
+        expect(mqttpC).to.respondTo("consume")
 
         expect(mqttpC).to.respondTo("provision")
         expect(mqttpC).to.respondTo("fetch")
@@ -215,6 +291,288 @@ describe("MQTT+ Library", function () {
         await subscription.unsubscribe()
     })
 
+    /*  test case: Event Emission (Wildcards)  */
+    it("MQTT+ Event Emission (Wildcards)", async function () {
+        /*  setup  */
+        this.timeout(1000)
+        const spy = sinon.spy()
+        const broker = new MQTTp.LoopbackBroker()
+        const mqttpS2 = new MQTTp<API>(broker.connect(), { id: "server" })
+        const mqttpC2 = new MQTTp<API>(broker.connect(), { id: "client" })
+
+        /*  subscribe to events via patterns  */
+        const subscription1 = await mqttpS2.subscribe("example/sensor/:room/temp", (value, info) => {
+            spy(`${info.segments.room}:${value}`)
+        })
+        const subscription2 = await mqttpS2.subscribe("example/sensor/#", (value, info) => {
+            spy(`${info.event}:${value}`)
+        })
+
+        /*  emit events  */
+        mqttpC2.emit("example/sensor/kitchen/temp", 21)
+        mqttpC2.emit("example/sensor/bath/temp", 23)
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        expect(spy.getCalls().map((call) => call.firstArg)).to.have.members([
+            "kitchen:21", "bath:23", "example/sensor/kitchen/temp:21", "example/sensor/bath/temp:23"
+        ])
+
+        /*  destroy subscriptions  */
+        await subscription2.unsubscribe()
+        await subscription1.unsubscribe()
+        await mqttpC2.destroy()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: Event Emission (Acknowledged)  */
+    it("MQTT+ Event Emission (Acknowledged)", async function () {
+        /*  setup  */
+        this.timeout(1000)
+        const spy = sinon.spy()
+        const broker = new MQTTp.LoopbackBroker()
+        const mqttpS2 = new MQTTp<API>(broker.connect(), { id: "server" })
+        const mqttpC2 = new MQTTp<API>(broker.connect(), { id: "client" })
+
+        /*  subscribe to event (with a slow and failing handler)  */
+        const subscription = await mqttpS2.subscribe("example/server/sample", async (str, num) => {
+            await new Promise((resolve) => { setTimeout(resolve, 20) })
+            if (num < 0)
+                throw new Error("invalid number")
+            spy(`${str}:${num}`)
+        })
+
+        /*  emit event and await its processing  */
+        await mqttpC2.emitWithAck({ event: "example/server/sample", params: [ "world", 42 ], receiver: "server" })
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([ "world:42" ])
+
+        /*  emit event and receive the failure of its processing  */
+        const error1 = await mqttpC2.emitWithAck({
+            event: "example/server/sample", params: [ "world", -1 ], receiver: "server"
+        }).catch((err: Error) => err.message)
+        expect(error1).to.be.equal("invalid number")
+
+        /*  emit event to a non-existing receiver  */
+        const error2 = await mqttpC2.emitWithAck({
+            event: "example/server/sample", params: [ "world", 7 ], receiver: "nobody", timeout: 50
+        }).catch((err: Error) => err.message)
+        expect(error2).to.be.equal("communication timeout")
+
+        /*  cleanup  */
+        await subscription.unsubscribe()
+        await mqttpC2.destroy()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: Event Emission (Acknowledged over Broker)  */
+    it("MQTT+ Event Emission (Acknowledged over Broker)", async function () {
+        /*  setup  */
+        this.timeout(2000)
+        const spy = sinon.spy()
+
+        /*  subscribe to event (with a failing handler)  */
+        const subscription = await mqttpS.subscribe("example/server/sample", (str, num) => {
+            if (num < 0)
+                throw new Error("invalid number")
+            spy(`${str}:${num}`)
+        })
+
+        /*  emit event and await its processing  */
+        await mqttpC.emitWithAck({ event: "example/server/sample", params: [ "world", 42 ], receiver: "server" })
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([ "world:42" ])
+
+        /*  emit event and receive the failure of its processing  */
+        const error = await mqttpC.emitWithAck({
+            event: "example/server/sample", params: [ "world", -1 ], receiver: "server"
+        }).catch((err: Error) => err.message)
+        expect(error).to.be.equal("invalid number")
+
+        /*  cleanup  */
+        await subscription.unsubscribe()
+    })
+
+    /*  test case: Event Iteration  */
+    it("MQTT+ Event Iteration", async function () {
+        /*  setup  */
+        this.timeout(1000)
+        const broker = new MQTTp.LoopbackBroker()
+        const mqttS2  = broker.connect()
+        const mqttpS2 = new MQTTp<API>(mqttS2, { id: "server" })
+        const mqttpC2 = new MQTTp<API>(broker.connect(), { id: "client" })
+
+        /*  iterate over events with a buffer dropping the oldest events  */
+        const events1 = mqttpS2.events("example/sensor/:room/temp", { size: 2, overflow: "drop-oldest" })
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        mqttpC2.emit("example/sensor/kitchen/temp", 19)
+        mqttpC2.emit("example/sensor/kitchen/temp", 20)
+        mqttpC2.emit("example/sensor/bath/temp", 23)
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        const items: string[] = []
+        for await (const { params: [ value ], info } of events1) {
+            items.push(`${info.segments.room}:${value}`)
+            if (items.length === 2)
+                break
+        }
+        expect(items).to.be.deep.equal([ "kitchen:20", "bath:23" ])
+
+        /*  iterate over events with a buffer failing on overflow  */
+        const events2 = mqttpS2.events("example/sensor/kitchen/temp", { size: 1, overflow: "error" })
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        mqttpC2.emit("example/sensor/kitchen/temp", 21)
+        mqttpC2.emit("example/sensor/kitchen/temp", 22)
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        expect((await events2.next()).value).to.be.deep.include({ params: [ 21 ] })
+        const error = await events2.next().catch((err: Error) => err.message)
+        expect(error).to.be.equal("queue overflow")
+
+        /*  ensure both iterations unsubscribed  */
+        const spy = sinon.spy()
+        mqttS2.on("message", spy)
+        mqttpC2.emit("example/sensor/kitchen/temp", 24)
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        expect(spy.callCount).to.be.equal(0)
+
+        /*  cleanup  */
+        await mqttpC2.destroy()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: Multiple Subscribers & Provisioners  */
+    it("MQTT+ Multiple Subscribers & Provisioners", async function () {
+        /*  setup  */
+        this.timeout(1000)
+        const spy = sinon.spy()
+        const broker = new MQTTp.LoopbackBroker()
+        const mqttpS2 = new MQTTp<API>(broker.connect(), { id: "server" })
+        const mqttpC2 = new MQTTp<API>(broker.connect(), { id: "client" })
+
+        /*  subscribe to the same event twice  */
+        const subscription1 = await mqttpS2.subscribe("example/server/sample", (str, num) => {
+            spy(`1:${str}:${num}`)
+        })
+        const subscription2 = await mqttpS2.subscribe("example/server/sample", (str, num) => {
+            spy(`2:${str}:${num}`)
+        })
+
+        /*  emit event to both subscribers  */
+        mqttpC2.emit("example/server/sample", "world", 42)
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        expect(spy.getCalls().map((call) => call.firstArg))
+            .to.have.members([ "1:world:42", "2:world:42" ])
+
+        /*  emit event to remaining subscriber  */
+        spy.resetHistory()
+        await subscription1.unsubscribe()
+        mqttpC2.emit("example/server/sample", "world", 7)
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        expect(spy.getCalls().map((call) => call.firstArg))
+            .to.be.deep.equal([ "2:world:7" ])
+        await subscription2.unsubscribe()
+
+        /*  provision the same resource for different parameters  */
+        const provisioning1 = await mqttpS2.provision("example/server/download", async (filename, info) => {
+            if (filename === "foo")
+                info.buffer = Promise.resolve(Buffer.from("foo content"))
+        })
+        const provisioning2 = await mqttpS2.provision("example/server/download", async (filename, info) => {
+            if (filename === "bar")
+                info.buffer = Promise.resolve(Buffer.from("bar content"))
+        })
+
+        /*  fetch resource from both provisioners  */
+        const decode = async (result: { buffer: Promise<Uint8Array> }) =>
+            new TextDecoder().decode(await result.buffer)
+        expect(await decode(await mqttpC2.fetch("example/server/download", "foo"))).to.be.equal("foo content")
+        expect(await decode(await mqttpC2.fetch("example/server/download", "bar"))).to.be.equal("bar content")
+        const error = await (await mqttpC2.fetch("example/server/download", "baz")).buffer
+            .catch((err: Error) => err.message)
+        expect(error).to.be.equal("no handler provided data via info.stream or info.buffer field")
+
+        /*  destroy provisionings  */
+        await provisioning2.unprovision()
+        await provisioning1.unprovision()
+        await mqttpC2.destroy()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: State Observation  */
+    it("MQTT+ State Observation", async function () {
+        /*  setup  */
+        this.timeout(1000)
+        const spy = sinon.spy()
+        const broker = new MQTTp.LoopbackBroker()
+        const mqttpS2 = new MQTTp<API>(broker.connect(), { id: "server" })
+        const mqttpC2 = new MQTTp<API>(broker.connect(), { id: "client" })
+
+        /*  set state before anyone observes it  */
+        await mqttpS2.set("example/server/status", { mode: "idle", load: 0 })
+
+        /*  observe state (and receive its current value)  */
+        const subscription1 = await mqttpC2.observe("example/server/status", (status, info) => {
+            spy(`1:${status?.mode ?? "cleared"}:${info.state}`)
+        })
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        const subscription2 = await mqttpC2.observe("example/server/status", (status) => {
+            spy(`2:${status?.mode ?? "cleared"}`)
+        })
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        expect(spy.getCalls().map((call) => call.firstArg))
+            .to.be.deep.equal([ "1:idle:example/server/status", "2:idle" ])
+
+        /*  update state  */
+        spy.resetHistory()
+        await mqttpS2.set("example/server/status", { mode: "busy", load: 42 })
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        expect(spy.getCalls().map((call) => call.firstArg))
+            .to.have.members([ "1:busy:example/server/status", "2:busy" ])
+        expect(await mqttpC2.get("example/server/status")).to.be.deep.equal({ mode: "busy", load: 42 })
+        expect(await mqttpS2.get("example/server/status")).to.be.deep.equal({ mode: "busy", load: 42 })
+
+        /*  clear state  */
+        spy.resetHistory()
+        await mqttpS2.clear("example/server/status")
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        expect(spy.getCalls().map((call) => call.firstArg))
+            .to.have.members([ "1:cleared:example/server/status", "2:cleared" ])
+        expect(broker.retainedMessages().size).to.be.equal(0)
+        expect(await mqttpS2.get("example/server/status", { timeout: 20 })).to.be.equal(undefined)
+        const started = Date.now()
+        expect(await mqttpS2.get("example/server/status")).to.be.equal(undefined)
+        expect(Date.now() - started).to.be.below(500)
+
+        /*  destroy observations  */
+        await subscription2.unsubscribe()
+        await subscription1.unsubscribe()
+        await mqttpC2.destroy()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: State Observation (over Broker)  */
+    it("MQTT+ State Observation (over Broker)", async function () {
+        /*  setup  */
+        this.timeout(2000)
+        const spy = sinon.spy()
+
+        /*  set state and observe it (and receive its retained value)  */
+        await mqttpS.set("example/server/status", { mode: "idle", load: 0 })
+        const subscription = await mqttpC.observe("example/server/status", (status) => {
+            spy(status?.mode ?? "cleared")
+        })
+        await new Promise((resolve) => { setTimeout(resolve, 100) })
+
+        /*  update state  */
+        await mqttpS.set("example/server/status", { mode: "busy", load: 42 })
+        await new Promise((resolve) => { setTimeout(resolve, 100) })
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([ "idle", "busy" ])
+        expect(await mqttpC.get("example/server/status")).to.be.deep.equal({ mode: "busy", load: 42 })
+
+        /*  clear state  */
+        await mqttpS.clear("example/server/status")
+        await new Promise((resolve) => { setTimeout(resolve, 100) })
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([ "idle", "busy", "cleared" ])
+
+        /*  destroy observation  */
+        await subscription.unsubscribe()
+    })
+
     /*  test case: Service Call  */
     it("MQTT+ Service Call", async function () {
         /*  setup  */
@@ -256,6 +614,497 @@ describe("MQTT+ Library", function () {
         await registration.unregister()
     })
 
+    /*  test case: Service Call (Structured Errors)  */
+    it("MQTT+ Service Call (Structured Errors)", async function () {
+        /*  setup  */
+        this.timeout(1000)
+
+        /*  custom error class  */
+        class ValidationError extends Error {
+            constructor (message: string, options?: { cause?: unknown }) {
+                super(message, options)
+                this.name = "ValidationError"
+            }
+        }
+
+        /*  provide service  */
+        const registration = await mqttpS.register("example/server/hello", (str: string, num: number) => {
+            throw Object.assign(new ValidationError("invalid argument"), { code: "EINVAL", data: { num } })
+        })
+
+        /*  call service (with generic remote error)  */
+        const error1 = await mqttpC.call("example/server/hello", "world", 42).catch((err: any) => err)
+        expect(error1).to.be.instanceOf(MQTTp.RemoteError)
+        expect(error1.name).to.be.equal("ValidationError")
+        expect(error1.message).to.be.equal("invalid argument")
+        expect(error1.code).to.be.equal("EINVAL")
+        expect(error1.data).to.be.deep.equal({ num: 42 })
+
+        /*  call service (with custom error class)  */
+        mqttpC.registerError("ValidationError", ValidationError)
+        const error2 = await mqttpC.call("example/server/hello", "world", 42).catch((err: any) => err)
+        expect(error2).to.be.instanceOf(ValidationError)
+        expect(error2.code).to.be.equal("EINVAL")
+        mqttpC.unregisterError("ValidationError")
+
+        /*  call service (with cyclic error causes)  */
+        await registration.unregister()
+        const registration2 = await mqttpS.register("example/server/hello", (str: string, num: number) => {
+            const cause = new Error("inner failure")
+            const err = new Error("outer failure", { cause })
+            cause.cause = err
+            throw err
+        })
+        const error3 = await mqttpC.call("example/server/hello", "world", 42).catch((err: any) => err)
+        expect(error3.message).to.be.equal("outer failure")
+        expect(error3.cause.message).to.be.equal("inner failure")
+        expect(error3.cause.cause).to.be.equal(undefined)
+
+        /*  destroy service  */
+        await registration2.unregister()
+    })
+
+    /*  test case: Service Call (Scatter-Gather)  */
+    it("MQTT+ Service Call (Scatter-Gather)", async function () {
+        /*  setup  */
+        this.timeout(2000)
+        const mqttS2 = MQTT.connect("mqtt://127.0.0.1:1883",
+            { clientId: "server2", username: "example", password: "example" })
+        await new Promise<void>((resolve, reject) => {
+            mqttS2.once("connect", ()         => { resolve() })
+            mqttS2.once("error",   (err: any) => { reject(err) })
+        })
+        const mqttpS2 = new MQTTp<API>(mqttS2, { id: "server2", timeout: 1000 })
+
+        /*  provide service twice  */
+        const registration1 = await mqttpS.register("example/server/hello", (str: string, num: number) => {
+            return `${str}:${num}`
+        })
+        const registration2 = await mqttpS2.register("example/server/hello", (str: string, num: number) => {
+            throw new Error("invalid service call")
+        })
+
+        /*  call service on all registrants  */
+        const results = await mqttpC.callAll({ service: "example/server/hello", params: [ "world", 42 ], count: 2 })
+        expect([ ...results.keys() ]).to.have.members([ "server", "server2" ])
+        expect(results.get("server")).to.be.deep.equal({ status: "fulfilled", value: "world:42" })
+        const result2 = results.get("server2") as PromiseRejectedResult
+        expect(result2.status).to.be.equal("rejected")
+        expect(result2.reason.message).to.be.equal("invalid service call")
+
+        /*  destroy services  */
+        await registration2.unregister()
+        await registration1.unregister()
+        await mqttpS2.destroy()
+        mqttS2.end()
+    })
+
+    /*  test case: Service Call Cancellation  */
+    it("MQTT+ Service Call Cancellation", async function () {
+        /*  setup  */
+        this.timeout(2000)
+        const spy = sinon.spy()
+
+        /*  provide slow service  */
+        const registration = await mqttpS.register("example/server/slow", (ms: number, info: InfoService) => {
+            spy("register")
+            return new Promise<string>((resolve, reject) => {
+                const timer = setTimeout(() => { resolve("done") }, ms)
+                info.signal.addEventListener("abort", () => {
+                    clearTimeout(timer)
+                    spy("abort")
+                    reject(new Error("aborted"))
+                })
+            })
+        })
+
+        /*  call service (with abort)  */
+        const controller = new AbortController()
+        const promise = mqttpC.call({ service: "example/server/slow", params: [ 1000 ], signal: controller.signal })
+        await new Promise((resolve) => { setTimeout(resolve, 100) })
+        controller.abort()
+        const error1 = await promise.catch((err: Error) => err)
+        expect(error1).to.be.instanceOf(Error)
+        expect((error1 as Error).name).to.be.equal("AbortError")
+        await new Promise((resolve) => { setTimeout(resolve, 100) })
+        expect(spy.getCalls().map((call) => call.firstArg))
+            .to.be.deep.equal([ "register", "abort" ])
+
+        /*  call service (with per-call timeout)  */
+        const error2 = await mqttpC.call({ service: "example/server/slow", params: [ 1000 ], timeout: 100 })
+            .catch((err: Error) => err.message)
+        expect(error2).to.be.equal("communication timeout")
+
+        /*  destroy service  */
+        await registration.unregister()
+    })
+
+    /*  test case: Service Call Cancellation (Share Groups and Scatter-Gather)  */
+    it("MQTT+ Service Call Cancellation (Share Groups and Scatter-Gather)", async function () {
+        /*  setup  */
+        this.timeout(2000)
+        const spy = sinon.spy()
+        const broker  = new MQTTp.LoopbackBroker()
+        const mqttC2  = broker.connect()
+        const mqttpS2 = new MQTTp<API>(broker.connect(), { id: "server2" })
+        const mqttpS3 = new MQTTp<API>(broker.connect(), { id: "server3" })
+        const mqttpC2 = new MQTTp<API>(mqttC2, { id: "client" })
+
+        /*  provide slow service (aborted on cancel) by two peers of a share group  */
+        const slow = (id: string) => (ms: number, info: InfoService) => {
+            spy(`${id}:register`)
+            return new Promise<string>((resolve, reject) => {
+                const timer = setTimeout(() => { resolve("done") }, ms)
+                info.signal.addEventListener("abort", () => {
+                    clearTimeout(timer)
+                    spy(`${id}:abort`)
+                    reject(new Error("aborted"))
+                })
+            })
+        }
+        const registration2 = await mqttpS2.register({ service: "example/server/slow", callback: slow("server2"), share: "group" })
+        const registration3 = await mqttpS3.register({ service: "example/server/slow", callback: slow("server3"), share: "group" })
+        await mqttpS2.join()
+        await mqttpS3.join()
+        await mqttpC2.join()
+        await new Promise((resolve) => { setTimeout(resolve, 20) })
+
+        /*  call service (with abort reaching the share group member handling the call)  */
+        const controller = new AbortController()
+        const promise = mqttpC2.call({ service: "example/server/slow", params: [ 1000 ], signal: controller.signal })
+        await new Promise((resolve) => { setTimeout(resolve, 50) })
+        controller.abort()
+        await promise.catch(() => {})
+        await new Promise((resolve) => { setTimeout(resolve, 50) })
+        const calls = spy.getCalls().map((call) => call.firstArg)
+        expect(calls).to.have.length(2)
+        expect(calls[1]).to.be.equal(calls[0].replace(/:register$/, ":abort"))
+        await registration3.unregister()
+        await registration2.unregister()
+
+        /*  provide service by two regular peers (one fast and one slow)  */
+        spy.resetHistory()
+        const registration4 = await mqttpS2.register("example/server/slow", async () => "fast")
+        const registration5 = await mqttpS3.register("example/server/slow", slow("server3"))
+        await new Promise((resolve) => { setTimeout(resolve, 20) })
+
+        /*  call service on all registrants (with cancel reaching the not answering peer only)  */
+        const topics: string[] = []
+        const publish = mqttC2.publish.bind(mqttC2)
+        mqttC2.publish = ((topic: string, ...args: any[]) => {
+            if (topic.startsWith("example/server/slow/service-call-request/"))
+                topics.push(topic)
+            return (publish as any)(topic, ...args)
+        }) as typeof mqttC2.publish
+        const results = await mqttpC2.callAll({ service: "example/server/slow", params: [ 1000 ], timeout: 100 })
+        expect([ ...results.keys() ]).to.be.deep.equal([ "server2" ])
+        await new Promise((resolve) => { setTimeout(resolve, 50) })
+        expect(topics).to.be.deep.equal([
+            "example/server/slow/service-call-request/any",
+            "example/server/slow/service-call-request/server3"
+        ])
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([ "server3:register", "server3:abort" ])
+
+        /*  destroy services  */
+        await registration5.unregister()
+        await registration4.unregister()
+        await mqttpC2.destroy()
+        await mqttpS3.destroy()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: Service Call Retry  */
+    it("MQTT+ Service Call Retry", async function () {
+        /*  setup  */
+        this.timeout(2000)
+
+        /*  provide service (which fails transiently on the first two attempts)  */
+        let attempts = 0
+        const registration = await mqttpS.register("example/server/hello", (str: string, num: number) => {
+            if (++attempts < 3)
+                throw Object.assign(new Error("temporarily unavailable"), { code: "EAGAIN" })
+            return `${str}:${num}`
+        })
+
+        /*  call service (with retries)  */
+        const result = await mqttpC.call({ service: "example/server/hello", params: [ "world", 42 ],
+            retry: { attempts: 3, delay: 10, retryable: (err: any) => err.code === "EAGAIN" } })
+        expect(result).to.be.equal("world:42")
+        expect(attempts).to.be.equal(3)
+
+        /*  call service (with retries exhausted)  */
+        attempts = 0
+        const error = await mqttpC.call({ service: "example/server/hello", params: [ "world", 42 ],
+            retry: { attempts: 2, delay: 10, retryable: (err: any) => err.code === "EAGAIN" } })
+            .catch((err: any) => err)
+        expect(error.code).to.be.equal("EAGAIN")
+        expect(attempts).to.be.equal(2)
+
+        /*  destroy service  */
+        await registration.unregister()
+    })
+
+    /*  test case: Service Call De-Duplication  */
+    it("MQTT+ Service Call De-Duplication", async function () {
+        /*  setup  */
+        this.timeout(2000)
+        const spy = sinon.spy()
+
+        /*  provide slow service (with de-duplication)  */
+        const registration = await mqttpS.register({
+            service: "example/server/slow",
+            callback: async (ms: number) => {
+                spy(ms)
+                await new Promise((resolve) => { setTimeout(resolve, ms) })
+                return "done"
+            },
+            dedup: { size: 10, ttl: 1000 }
+        })
+
+        /*  call service (with retries re-sending the same request while in-flight)  */
+        const result = await mqttpC.call({ service: "example/server/slow", params: [ 300 ],
+            timeout: 100, retry: { attempts: 5, delay: 10 } })
+        expect(result).to.be.equal("done")
+        expect(spy.callCount).to.be.equal(1)
+
+        /*  destroy service  */
+        await registration.unregister()
+    })
+
+    /*  test case: Service Call Concurrency Limits  */
+    it("MQTT+ Service Call Concurrency Limits", async function () {
+        /*  setup  */
+        this.timeout(2000)
+
+        /*  provide slow service (with concurrency and queue limits)  */
+        const registration = await mqttpS.register({
+            service: "example/server/slow",
+            callback: async (ms: number) => {
+                await new Promise((resolve) => { setTimeout(resolve, ms) })
+                return "done"
+            },
+            concurrency: 1,
+            queue: 1
+        })
+
+        /*  call service three times concurrently  */
+        const promises = [ 1, 2, 3 ].map(() =>
+            mqttpC.call("example/server/slow", 200).catch((err: any) => err.code))
+        await new Promise((resolve) => { setTimeout(resolve, 100) })
+        expect(registration.inflight).to.be.equal(1)
+        expect(registration.queued).to.be.equal(1)
+        const results = await Promise.all(promises)
+        expect(results).to.have.members([ "done", "done", "EBUSY" ])
+        expect(registration.inflight).to.be.equal(0)
+
+        /*  destroy service  */
+        await registration.unregister()
+    })
+
+    /*  test case: Middleware  */
+    it("MQTT+ Middleware", async function () {
+        /*  setup  */
+        this.timeout(1000)
+        const spy = sinon.spy()
+
+        /*  use middlewares for observing outgoing and rejecting incoming messages  */
+        const usage1 = mqttpC.use({
+            outbound: (ctx, next) => {
+                spy(`${ctx.direction}:${ctx.message.type}`)
+                return next()
+            }
+        })
+        const usage2 = mqttpS.use({
+            inbound: async (ctx, next) => {
+                if ("params" in ctx.message && ctx.message.params?.[0] === "intruder")
+                    throw Object.assign(new Error("access denied"), { code: "EACCES" })
+                await next()
+            }
+        })
+
+        /*  provide service  */
+        const registration = await mqttpS.register("example/server/hello", (str: string, num: number) => {
+            return `${str}:${num}`
+        })
+
+        /*  call service (accepted and rejected)  */
+        const result = await mqttpC.call("example/server/hello", "world", 42)
+        expect(result).to.be.equal("world:42")
+        expect(spy.calledWith("outbound:service-call-request")).to.be.equal(true)
+        const error = await mqttpC.call("example/server/hello", "intruder", 42).catch((err: any) => err)
+        expect(error.code).to.be.equal("EACCES")
+
+        /*  destroy service and middlewares  */
+        await registration.unregister()
+        usage2.unuse()
+        usage1.unuse()
+    })
+
+    /*  test case: Schema Validation  */
+    it("MQTT+ Schema Validation", async function () {
+        /*  setup  */
+        this.timeout(1000)
+
+        /*  minimal Standard Schema implementation  */
+        const schema = <V>(check: (value: unknown) => boolean): StandardSchema<V> => ({
+            "~standard": {
+                version:  1,
+                vendor:   "test",
+                validate: (value: unknown) => check(value)
+                    ? { value: value as V }
+                    : { issues: [ { message: `unexpected value ${JSON.stringify(value)}` } ] }
+            }
+        })
+        const runtimeSchema = {
+            "example/server/hello": {
+                kind:   "service",
+                params: schema<[ string, number ]>((v) =>
+                    Array.isArray(v) && typeof v[0] === "string" && typeof v[1] === "number"),
+                result: schema<string>((v) => typeof v === "string")
+            }
+        } as const
+        type APIv = InferAPI<typeof runtimeSchema>
+
+        /*  connect with MQTT as second server  */
+        const mqttS2 = MQTT.connect("mqtt://127.0.0.1:1883",
+            { clientId: "server2", username: "example", password: "example" })
+        await new Promise<void>((resolve, reject) => {
+            mqttS2.once("connect", ()         => { resolve() })
+            mqttS2.once("error",   (err: any) => { reject(err) })
+        })
+
+        /*  provide service (with validation)  */
+        const mqttpS2 = new MQTTp<APIv>(mqttS2, { id: "server2", timeout: 1000, schema: runtimeSchema })
+        const registration = await mqttpS2.register("example/server/hello", (str: string, num: number) => {
+            return `${str}:${num}`
+        })
+
+        /*  call service (with validation on incoming request)  */
+        const error1 = await mqttpC.call({ service: "example/server/hello",
+            params: [ "world", "42" as unknown as number ], receiver: "server2" }).catch((err: any) => err)
+        expect(error1).to.be.instanceOf(MQTTp.RemoteError)
+        expect(error1.name).to.be.equal("ValidationError")
+        expect(error1.code).to.be.equal("EINVAL")
+
+        /*  call service (with validation on outgoing request)  */
+        const mqttpC2 = new MQTTp<APIv>(mqttC, { id: "client", timeout: 1000, schema: runtimeSchema })
+        const error2 = await mqttpC2.call("example/server/hello", "world", "42" as unknown as number)
+            .catch((err: any) => err)
+        expect(error2).to.be.instanceOf(MQTTp.ValidationError)
+        const result = await mqttpC2.call({ service: "example/server/hello",
+            params: [ "world", 42 ], receiver: "server2" })
+        expect(result).to.be.equal("world:42")
+
+        /*  destroy service  */
+        await registration.unregister()
+        await mqttpC2.destroy()
+        await mqttpS2.destroy()
+        mqttS2.end()
+    })
+
+    /*  test case: Stream Iteration  */
+    it("MQTT+ Stream Iteration", async function () {
+        /*  setup  */
+        this.timeout(2000)
+
+        /*  provide stream  */
+        const production = await mqttpS.produce("example/server/count", async function * (n: number) {
+            if (n < 0)
+                throw new Error("invalid stream iteration")
+            for (let i = 1; i <= n; i++)
+                yield i
+        })
+
+        /*  consume stream (successfully)  */
+        const items: number[] = []
+        for await (const item of mqttpC.consume("example/server/count", 5))
+            items.push(item)
+        expect(items).to.be.deep.equal([ 1, 2, 3, 4, 5 ])
+
+        /*  consume stream (prematurely stopped)  */
+        const items2: number[] = []
+        for await (const item of mqttpC.consume("example/server/count", 1000)) {
+            items2.push(item)
+            if (item === 3)
+                break
+        }
+        expect(items2).to.be.deep.equal([ 1, 2, 3 ])
+
+        /*  consume stream (with buffer overflow)  */
+        const iterator = mqttpC.consume({ stream: "example/server/count", params: [ 10 ], size: 2 })
+        await new Promise((resolve) => { setTimeout(resolve, 200) })
+        const items3: number[] = []
+        const error3 = await (async () => {
+            for await (const item of iterator)
+                items3.push(item)
+            return "no-error"
+        })().catch((err: Error) => err.message)
+        expect(items3).to.be.deep.equal([ 1, 2 ])
+        expect(error3).to.be.equal("queue overflow")
+
+        /*  consume stream (with error)  */
+        const error = await (async () => {
+            for await (const _item of mqttpC.consume("example/server/count", -1))
+                return "no-error"
+            return "no-error"
+        })().catch((err: Error) => err.message)
+        expect(error).to.be.equal("invalid stream iteration")
+
+        /*  destroy stream  */
+        await production.unproduce()
+    })
+
+    /*  test case: Stream Iteration (Multiple Producers)  */
+    it("MQTT+ Stream Iteration (Multiple Producers)", async function () {
+        /*  setup  */
+        this.timeout(2000)
+        const broker  = new MQTTp.LoopbackBroker()
+        const mqttpS2 = new MQTTp<API>(broker.connect(), { id: "server2" })
+        const mqttpS3 = new MQTTp<API>(broker.connect(), { id: "server3" })
+        const mqttpC2 = new MQTTp<API>(broker.connect(), { id: "client" })
+
+        /*  provide the same stream by two producers  */
+        const aborted: number[] = []
+        const produce = (mqttp: typeof mqttpS2, base: number) =>
+            mqttp.produce("example/server/count", async function * (n: number, info) {
+                for (let i = 1; i <= n; i++) {
+                    await new Promise((resolve) => { setTimeout(resolve, 5) })
+                    if (info.signal.aborted) {
+                        aborted.push(base)
+                        return
+                    }
+                    yield base + i
+                }
+            })
+        const production2 = await produce(mqttpS2, 100)
+        const production3 = await produce(mqttpS3, 200)
+
+        /*  consume stream without receiver: all items from one producer only  */
+        const items: number[] = []
+        for await (const item of mqttpC2.consume("example/server/count", 10))
+            items.push(item)
+        expect(items).to.have.length(10)
+        const base = items[0] > 200 ? 200 : 100
+        expect(items).to.be.deep.equal([ ...Array(10).keys() ].map((i) => base + i + 1))
+
+        /*  the other producer was cancelled  */
+        await new Promise((resolve) => { setTimeout(resolve, 20) })
+        expect(aborted).to.be.deep.equal([ base === 100 ? 200 : 100 ])
+
+        /*  consume stream with receiver  */
+        const items2: number[] = []
+        for await (const item of mqttpC2.consume({ stream: "example/server/count", params: [ 3 ], receiver: "server3" }))
+            items2.push(item)
+        expect(items2).to.be.deep.equal([ 201, 202, 203 ])
+
+        /*  destroy streams  */
+        await production3.unproduce()
+        await production2.unproduce()
+        await mqttpC2.destroy()
+        await mqttpS3.destroy()
+        await mqttpS2.destroy()
+    })
+
     /*  test case: Resource Transfer (Push)  */
     it("MQTT+ Resource Transfer (Push)", async function () {
         /*  setup  */
@@ -338,6 +1187,422 @@ describe("MQTT+ Library", function () {
         await provisioning.unprovision()
     })
 
+    /*  test case: Resource Transfer (Multiple Provisioners)  */
+    it("MQTT+ Resource Transfer (Multiple Provisioners)", async function () {
+        /*  setup  */
+        this.timeout(2000)
+        const broker  = new MQTTp.LoopbackBroker()
+        const mqttpS2 = new MQTTp<API>(broker.connect(), { id: "server2", chunkSize: 16 })
+        const mqttpS3 = new MQTTp<API>(broker.connect(), { id: "server3", chunkSize: 16 })
+        const mqttpC2 = new MQTTp<API>(broker.connect(), { id: "client" })
+
+        /*  provision the same resource by two peers (with multiple chunks each)  */
+        const provision = (mqttp: typeof mqttpS2, char: string) =>
+            mqttp.provision("example/server/download", async (_filename, info) => {
+                info.buffer = Promise.resolve(Buffer.from(char.repeat(100)))
+            })
+        const provisioning2 = await provision(mqttpS2, "a")
+        const provisioning3 = await provision(mqttpS3, "b")
+
+        /*  fetch resource without receiver: all chunks from one provisioner only  */
+        const decode = async (result: { buffer: Promise<Uint8Array> }) =>
+            new TextDecoder().decode(await result.buffer)
+        const str = await decode(await mqttpC2.fetch("example/server/download", "foo"))
+        expect(str).to.be.oneOf([ "a".repeat(100), "b".repeat(100) ])
+
+        /*  fetch resource with receiver  */
+        const str2 = await decode(await mqttpC2.fetch({
+            resource: "example/server/download", params: [ "foo" ], receiver: "server3" }))
+        expect(str2).to.be.equal("b".repeat(100))
+
+        /*  destroy provisionings  */
+        await provisioning3.unprovision()
+        await provisioning2.unprovision()
+        await mqttpC2.destroy()
+        await mqttpS3.destroy()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: Resource Transfer (Flow Control)  */
+    it("MQTT+ Resource Transfer (Flow Control)", async function () {
+        /*  setup  */
+        this.timeout(3000)
+        const broker  = new MQTTp.LoopbackBroker()
+        const mqttS2  = broker.connect()
+        const mqttC2  = broker.connect()
+        const mqttpS2 = new MQTTp<API>(mqttS2, { id: "server", chunkSize: 1024, chunkWindow: 4 })
+        const mqttpC2 = new MQTTp<API>(mqttC2, { id: "client", chunkSize: 1024, chunkWindow: 4 })
+        const data = Buffer.from(crypto.randomBytes(64 * 1024))
+
+        /*  count published chunks  */
+        const sent = { server: 0, client: 0 }
+        const count = (mqtt: typeof mqttS2, peer: keyof typeof sent) => {
+            const publish = mqtt.publish.bind(mqtt) as (...args: any[]) => any
+            mqtt.publish = ((topic: string, ...args: any[]) => {
+                if (topic.includes("resource-transfer-response"))
+                    sent[peer]++
+                return publish(topic, ...args)
+            }) as typeof mqtt.publish
+        }
+        count(mqttS2, "server")
+        count(mqttC2, "client")
+
+        /*  utility for slowly consuming a stream  */
+        const consume = async (readable: stream.Readable) => {
+            await new Promise((resolve) => { setTimeout(resolve, 200) })
+            const chunks: Buffer[] = []
+            for await (const chunk of readable)
+                chunks.push(chunk)
+            return Buffer.concat(chunks)
+        }
+
+        /*  fetch with a slow consumer  */
+        const provisioning = await mqttpS2.provision("example/server/download", (filename, info) => {
+            info.stream = stream.Readable.from([ data ])
+        })
+        const result = await mqttpC2.fetch("example/server/download", "foo")
+        const consumed = consume(result.stream)
+        await new Promise((resolve) => { setTimeout(resolve, 100) })
+        expect(sent.server).to.be.below(32)
+        expect(await consumed).to.deep.equal(data)
+        expect(sent.server).to.be.equal(65)
+        await provisioning.unprovision()
+
+        /*  push with a slow consumer  */
+        let received: Promise<Buffer> | undefined
+        const attachment = await mqttpS2.provision("example/server/upload", (name, info) => {
+            received = consume(info.stream!)
+        })
+        const pushed = mqttpC2.push("example/server/upload", stream.Readable.from([ data ]), "foo")
+        await new Promise((resolve) => { setTimeout(resolve, 100) })
+        expect(sent.client).to.be.below(32)
+        await pushed
+        expect(await received).to.deep.equal(data)
+        expect(sent.client).to.be.equal(65)
+        await attachment.unprovision()
+
+        /*  cleanup  */
+        await mqttpC2.destroy()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: Resource Transfer (Flow Control over Broker)  */
+    it("MQTT+ Resource Transfer (Flow Control over Broker)", async function () {
+        /*  setup  */
+        this.timeout(5000)
+        const data = Buffer.from(crypto.randomBytes(48 * 16 * 1024))
+
+        /*  fetch across multiple credit windows  */
+        const provisioning = await mqttpS.provision("example/server/download", (filename, info) => {
+            info.stream = stream.Readable.from([ data ])
+        })
+        const result = await mqttpC.fetch("example/server/download", "foo")
+        expect(Buffer.from(await result.buffer)).to.deep.equal(data)
+        await provisioning.unprovision()
+
+        /*  push across multiple credit windows  */
+        let received: Promise<Buffer> | undefined
+        const attachment = await mqttpS.provision("example/server/upload", (name, info) => {
+            received = (async () => {
+                const chunks: Buffer[] = []
+                for await (const chunk of info.stream!)
+                    chunks.push(chunk)
+                return Buffer.concat(chunks)
+            })()
+        })
+        await mqttpC.push("example/server/upload", stream.Readable.from([ data ]), "foo")
+        expect(await received).to.deep.equal(data)
+        await attachment.unprovision()
+
+        /*  push across multiple credit windows without any receiver  */
+        await mqttpC.push("example/server/upload", stream.Readable.from([ data ]), "foo")
+    })
+
+    /*  test case: Resource Transfer (Sequencing)  */
+    it("MQTT+ Resource Transfer (Sequencing)", async function () {
+        /*  setup  */
+        this.timeout(2000)
+        const broker  = new MQTTp.LoopbackBroker()
+        const mqttC2  = broker.connect()
+        const mqttpS2 = new MQTTp<API>(broker.connect(), { id: "server", codec: "json", timeout: 100 })
+        const results = new Map<string, Promise<string>>()
+        const attachment = await mqttpS2.provision("example/server/upload", (name, info) => {
+            results.set(name, info.buffer!.then(
+                (data) => new TextDecoder().decode(data),
+                (err: Error) => `error:${err.message}`))
+        })
+
+        /*  utility for sending raw chunks of a push  */
+        const send = (id: string, seq: number, text: string, final = false, size?: number) => {
+            mqttC2.publish("example/server/upload/resource-transfer-response/any", JSON.stringify({
+                type: "resource-transfer-response", id, resource: "example/server/upload", params: [ id ],
+                chunk: Array.from(new TextEncoder().encode(text)), seq, size, final, sender: "client"
+            }))
+        }
+
+        /*  reorder chunks, and detect duplicate, missing and truncated chunks  */
+        send("reorder", 1, "world", false)
+        send("reorder", 0, "hello ", false)
+        send("reorder", 2, "", true, 11)
+        send("duplicate", 0, "foo", false)
+        send("duplicate", 0, "foo", false)
+        send("gap", 0, "foo", false)
+        send("gap", 2, "bar", false)
+        send("truncated", 0, "foo", false)
+        send("truncated", 1, "", true, 6)
+        await new Promise((resolve) => { setTimeout(resolve, 300) })
+        expect(await results.get("reorder")).to.be.equal("hello world")
+        expect(await results.get("duplicate")).to.be.equal("error:duplicate resource chunk #0")
+        expect(await results.get("gap")).to.be.equal("error:missing resource chunk #1")
+        expect(await results.get("truncated")).to.be
+            .equal("error:resource size mismatch (expected 6 bytes, received 3 bytes)")
+
+        /*  cleanup  */
+        await attachment.unprovision()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: Resource Transfer (Ranges & Resumption)  */
+    it("MQTT+ Resource Transfer (Ranges & Resumption)", async function () {
+        /*  setup  */
+        this.timeout(3000)
+        const spy = sinon.spy()
+        const broker  = new MQTTp.LoopbackBroker()
+        const mqttC2  = broker.connect()
+        const mqttS2  = broker.connect()
+        const mqttpS2 = new MQTTp<API>(mqttS2, { id: "server", chunkSize: 1024, timeout: 200 })
+        const mqttpC2 = new MQTTp<API>(mqttC2, { id: "client", timeout: 200, offline: { mode: "queue" } })
+        const data = Buffer.from(crypto.randomBytes(8 * 1024))
+        let etag = "v1"
+        let first: stream.Readable | undefined
+        const provisioning = await mqttpS2.provision("example/server/download", (filename, info) => {
+            spy(info.range)
+            info.meta = { etag }
+            if (filename === "foo")
+                info.buffer = Promise.resolve(data)
+            else if (first === undefined) {
+                /*  provide only the first half of the data on the first request  */
+                first = new stream.Readable({ read () {} })
+                first.push(data.subarray(0, 4096))
+                info.stream = first
+            }
+            else
+                info.stream = stream.Readable.from([ data ])
+        })
+
+        /*  fetch byte ranges  */
+        const result1 = await mqttpC2.fetch({
+            resource: "example/server/download", params: [ "foo" ], range: { offset: 1000, length: 2000 } })
+        expect(Buffer.from(await result1.buffer)).to.deep.equal(data.subarray(1000, 3000))
+        const result2 = await mqttpC2.fetch({
+            resource: "example/server/download", params: [ "foo" ], range: { offset: 7000 } })
+        expect(Buffer.from(await result2.buffer)).to.deep.equal(data.subarray(7000))
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([
+            { offset: 1000, length: 2000 }, { offset: 7000 } ])
+
+        /*  resume fetch from the last received offset after a connection loss  */
+        spy.resetHistory()
+        const result3 = await mqttpC2.fetch({
+            resource: "example/server/download", params: [ "bar" ], resume: true, retry: { attempts: 2, delay: 10 } })
+        await new Promise((resolve) => { setTimeout(resolve, 50) })
+        broker.interrupt(mqttC2)
+        first!.push(data.subarray(4096))
+        first!.push(null)
+        await new Promise((resolve) => { setTimeout(resolve, 50) })
+        mqttC2.reconnect()
+        expect(Buffer.from(await result3.buffer)).to.deep.equal(data)
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([ undefined, { offset: 4096 } ])
+
+        /*  resume fetch from the last received offset after a lost chunk  */
+        spy.resetHistory()
+        let chunks = 0
+        const publish = mqttS2.publish.bind(mqttS2) as (...args: any[]) => any
+        mqttS2.publish = ((topic: string, ...args: any[]) => {
+            if (topic.includes("resource-transfer-response") && ++chunks === 3) {
+                args.find((arg) => typeof arg === "function")?.()
+                return mqttS2
+            }
+            return publish(topic, ...args)
+        }) as typeof mqttS2.publish
+        const result5 = await mqttpC2.fetch({
+            resource: "example/server/download", params: [ "foo" ], resume: true, retry: { attempts: 2, delay: 10 } })
+        expect(Buffer.from(await result5.buffer)).to.deep.equal(data)
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([ undefined, { offset: 2048 } ])
+        mqttS2.publish = publish as typeof mqttS2.publish
+
+        /*  fail resumption on a changed resource version  */
+        first = undefined
+        const result4 = await mqttpC2.fetch({
+            resource: "example/server/download", params: [ "bar" ], resume: true, retry: { attempts: 2, delay: 10 } })
+        await new Promise((resolve) => { setTimeout(resolve, 50) })
+        etag = "v2"
+        expect(await result4.buffer.catch((err: Error) => err.message)).to.be.equal("resource changed")
+
+        /*  cleanup  */
+        await provisioning.unprovision()
+        await mqttpC2.destroy()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: Resource Transfer (Integrity)  */
+    it("MQTT+ Resource Transfer (Integrity)", async function () {
+        /*  setup  */
+        this.timeout(2000)
+        const broker  = new MQTTp.LoopbackBroker()
+        const mqttC2  = broker.connect()
+        const mqttpS2 = new MQTTp<API>(broker.connect(), {
+            id: "server", codec: "json", chunkSize: 1024, integrity: { algorithm: "sha256", chunks: true } })
+        const mqttpC2 = new MQTTp<API>(mqttC2, {
+            id: "client", codec: "json", chunkSize: 1024, integrity: { algorithm: "crc32", chunks: true } })
+        const data = Buffer.from(crypto.randomBytes(4 * 1024))
+        const results = new Map<string, Promise<Buffer | string>>()
+        const attachment = await mqttpS2.provision("example/server/upload", (name, info) => {
+            results.set(name, info.buffer!.then((data) => Buffer.from(data), (err: Error) => `error:${err.message}`))
+        })
+        const provisioning = await mqttpS2.provision("example/server/download", (filename, info) => {
+            info.buffer = Promise.resolve(data)
+        })
+
+        /*  verify checksums of fetched and pushed data  */
+        const result = await mqttpC2.fetch("example/server/download", "foo")
+        expect(Buffer.from(await result.buffer)).to.deep.equal(data)
+        await mqttpC2.push("example/server/upload", data, "pushed")
+        await new Promise((resolve) => { setTimeout(resolve, 50) })
+        expect(await results.get("pushed")).to.deep.equal(data)
+
+        /*  detect corrupted chunks and data (with the well-known CRC32 check value of "123456789")  */
+        const send = (id: string, seq: number, text: string, fields: Record<string, any>) => {
+            mqttC2.publish("example/server/upload/resource-transfer-response/any", JSON.stringify({
+                type: "resource-transfer-response", id, resource: "example/server/upload", params: [ id ],
+                chunk: Array.from(new TextEncoder().encode(text)), seq, sender: "client", ...fields
+            }))
+        }
+        send("valid",  0, "123456789", { integrity: "crc32", checksum: "cbf43926" })
+        send("valid",  1, "", { final: true, digest: "cbf43926" })
+        send("chunk",  0, "foo", { integrity: "crc32" })
+        send("chunk",  1, "123456789", { checksum: "cbf43927" })
+        send("digest", 0, "foo", { integrity: "sha256" })
+        send("digest", 1, "", { final: true, digest: crypto.createHash("sha256").update("bar").digest("hex") })
+        await new Promise((resolve) => { setTimeout(resolve, 50) })
+        expect(await results.get("valid")).to.deep.equal(Buffer.from("123456789"))
+        expect(await results.get("chunk")).to.be.equal("error:resource chunk #1 checksum mismatch")
+        expect(await results.get("digest")).to.be.equal("error:resource digest mismatch")
+
+        /*  cleanup  */
+        await provisioning.unprovision()
+        await attachment.unprovision()
+        await mqttpC2.destroy()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: Compression  */
+    it("MQTT+ Compression", async function () {
+        /*  setup  */
+        this.timeout(2000)
+        const broker  = new MQTTp.LoopbackBroker()
+        const mqttS2  = broker.connect()
+        const mqttC2  = broker.connect()
+        const mqttpS2 = new MQTTp<API>(mqttS2, { id: "server",  compression: { algorithm: "gzip",   threshold: 100 } })
+        const mqttpC2 = new MQTTp<API>(mqttC2, { id: "client",  compression: { algorithm: "brotli", threshold: 100 } })
+        const mqttpC3 = new MQTTp<API>(broker.connect(), { id: "client3" })
+        const text = "the quick brown fox jumps over the lazy dog\n".repeat(1000)
+        const data = Buffer.from(text)
+
+        /*  count published bytes  */
+        const sent = new Map<string, number>()
+        const count = (mqtt: typeof mqttS2) => {
+            const publish = mqtt.publish.bind(mqtt) as (...args: any[]) => any
+            mqtt.publish = ((topic: string, payload: Uint8Array | string, ...args: any[]) => {
+                const operation = topic.split("/").at(-2)!
+                sent.set(operation, (sent.get(operation) ?? 0) + payload.length)
+                return publish(topic, payload, ...args)
+            }) as typeof mqtt.publish
+        }
+        count(mqttS2)
+        count(mqttC2)
+
+        /*  announce the accepted compressions (where the third peer accepts none)  */
+        await mqttpS2.join()
+        await mqttpC2.join()
+        await mqttpC3.join()
+        await new Promise((resolve) => { setTimeout(resolve, 20) })
+
+        /*  fetch resource compressed (only if supported by the fetching peer)  */
+        const provisioning = await mqttpS2.provision("example/server/download", (filename, info) => {
+            info.buffer = Promise.resolve(data)
+        })
+        const result = await mqttpC2.fetch("example/server/download", "foo")
+        expect(Buffer.from(await result.buffer)).to.deep.equal(data)
+        expect(sent.get("resource-transfer-response")).to.be.below(data.length / 10)
+        sent.clear()
+        const result3 = await mqttpC3.fetch("example/server/download", "foo")
+        expect(Buffer.from(await result3.buffer)).to.deep.equal(data)
+        expect(sent.get("resource-transfer-response")).to.be.above(data.length)
+        await provisioning.unprovision()
+
+        /*  push resource compressed (only to a particular peer accepting it)  */
+        let received: Promise<Uint8Array> | undefined
+        const attachment = await mqttpS2.provision("example/server/upload", (name, info) => {
+            received = info.buffer
+        })
+        sent.clear()
+        await mqttpC2.push({ resource: "example/server/upload", data, params: [ "foo" ], receiver: "server" })
+        await new Promise((resolve) => { setTimeout(resolve, 50) })
+        expect(Buffer.from(await received!)).to.deep.equal(data)
+        expect(sent.get("resource-transfer-response")).to.be.below(data.length / 10)
+        sent.clear()
+        await mqttpC2.push("example/server/upload", data, "foo")
+        await new Promise((resolve) => { setTimeout(resolve, 50) })
+        expect(Buffer.from(await received!)).to.deep.equal(data)
+        expect(sent.get("resource-transfer-response")).to.be.above(data.length)
+        await attachment.unprovision()
+
+        /*  call service with payloads compressed above the threshold
+            (only to and from particular peers accepting it)  */
+        const registration = await mqttpS2.register("example/server/hello", (a1, a2) => `${a1}:${a2}`)
+        sent.clear()
+        expect(await mqttpC2.call({ service: "example/server/hello", params: [ text, 42 ], receiver: "server" }))
+            .to.be.equal(`${text}:42`)
+        expect(sent.get("service-call-request")).to.be.below(text.length / 10)
+        expect(sent.get("service-call-response")).to.be.below(text.length / 10)
+        expect(await mqttpC2.call("example/server/hello", "world", 42)).to.be.equal("world:42")
+        sent.clear()
+        expect(await mqttpC2.call("example/server/hello", text, 42)).to.be.equal(`${text}:42`)
+        expect(sent.get("service-call-request")).to.be.above(text.length)
+        expect(sent.get("service-call-response")).to.be.below(text.length / 10)
+        sent.clear()
+        expect(await mqttpC3.call({ service: "example/server/hello", params: [ text, 42 ], receiver: "server" }))
+            .to.be.equal(`${text}:42`)
+        expect(sent.get("service-call-response")).to.be.above(text.length)
+        await registration.unregister()
+
+        /*  emit event uncompressed to a peer not accepting compression  */
+        const events: string[] = []
+        const subscription = await mqttpC3.subscribe("example/server/sample", (str) => { events.push(str) })
+        sent.clear()
+        mqttpS2.emit({ event: "example/server/sample", params: [ text, 42 ], receiver: "client3" })
+        await new Promise((resolve) => { setTimeout(resolve, 20) })
+        expect(events).to.be.deep.equal([ text ])
+        expect(sent.get("event-emission")).to.be.above(text.length)
+        await subscription.unsubscribe()
+
+        /*  emit events in order, even if only some of them are compressed  */
+        const events2: number[] = []
+        const subscription2 = await mqttpC2.subscribe("example/server/sample", (str) => { events2.push(str.length) })
+        sent.clear()
+        mqttpS2.emit({ event: "example/server/sample", params: [ text, 42 ], receiver: "client" })
+        mqttpS2.emit({ event: "example/server/sample", params: [ "world", 42 ], receiver: "client" })
+        await new Promise((resolve) => { setTimeout(resolve, 20) })
+        expect(events2).to.be.deep.equal([ text.length, "world".length ])
+        expect(sent.get("event-emission")).to.be.below(text.length / 10)
+        await subscription2.unsubscribe()
+
+        /*  cleanup  */
+        await mqttpC3.destroy()
+        await mqttpC2.destroy()
+        await mqttpS2.destroy()
+    })
+
     /*  test case: Dry-Run & Last-Will */
     it("MQTT+ Dry-Run & MQTT Last-Will", async function () {
         this.timeout(3000)
@@ -345,7 +1610,7 @@ describe("MQTT+ Library", function () {
         /*  generate connection close event  */
         const mqttpDry = new MQTTp<API>(null, { id: "my-client" })
         const will = mqttpDry.emit({ dry: true, event: "example/server/connection", params: [ "close" ] })
-        mqttpDry.destroy()
+        await mqttpDry.destroy()
 
         /*  connect to broker as a server  */
         const mqttServer = MQTT.connect("mqtt://127.0.0.1:1883", {
@@ -383,12 +1648,12 @@ describe("MQTT+ Library", function () {
         await new Promise((resolve) => { setTimeout(resolve, 100) })
 
         /*  perform unexpected destruction of client  */
-        mqttpClient.destroy()
+        await mqttpClient.destroy()
         mqttClient.end(true)
         await new Promise((resolve) => { setTimeout(resolve, 1000) })
 
         /*  perform regular destruction of client  */
-        mqttpServer.destroy()
+        await mqttpServer.destroy()
         mqttServer.end()
 
         /*  ensure connection open and close events were seen  */
@@ -396,6 +1661,363 @@ describe("MQTT+ Library", function () {
             .to.be.deep.equal([ "open", "close" ])
     })
 
+    /*  test case: Reconnect Handling  */
+    it("MQTT+ Reconnect Handling", async function () {
+        /*  setup  */
+        this.timeout(2000)
+        const spy = sinon.spy()
+        const broker  = new MQTTp.LoopbackBroker()
+        const mqttC2  = broker.connect({ clean: true })
+        const mqttpS2 = new MQTTp<API>(broker.connect(), { id: "server" })
+        const mqttpC2 = new MQTTp<API>(mqttC2, { id: "client" })
+        const registration = await mqttpS2.register("example/server/slow", async (ms) => {
+            await new Promise((resolve) => { setTimeout(resolve, ms) })
+            return `slept:${ms}`
+        })
+        const subscription = await mqttpC2.subscribe("example/server/sample", (str, num) => {
+            spy(`${str}:${num}`)
+        })
+
+        /*  restore subscriptions after reconnect without persistent session  */
+        broker.interrupt(mqttC2)
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        mqttC2.reconnect()
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        mqttpS2.emit("example/server/sample", "world", 42)
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([ "world:42" ])
+
+        /*  fail pending call on connection loss  */
+        const call1 = mqttpC2.call("example/server/slow", 100).catch((err: Error) => err.message)
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        broker.interrupt(mqttC2)
+        expect(await call1).to.be.equal("connection lost")
+        mqttC2.reconnect()
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+
+        /*  retry pending call after connection loss  */
+        const call2 = mqttpC2.call({
+            service: "example/server/slow", params: [ 50 ], retry: { attempts: 2, delay: 20 }
+        })
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        broker.interrupt(mqttC2)
+        mqttC2.reconnect()
+        expect(await call2).to.be.equal("slept:50")
+
+        /*  cleanup  */
+        await subscription.unsubscribe()
+        await registration.unregister()
+        await mqttpC2.destroy()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: Offline Queueing  */
+    it("MQTT+ Offline Queueing", async function () {
+        /*  setup  */
+        this.timeout(2000)
+        const spy = sinon.spy()
+        const saved: number[] = []
+        const store = {
+            load: async () => [],
+            save: async (entries: OfflineEntry[]) => { saved.push(entries.length) }
+        }
+        const broker  = new MQTTp.LoopbackBroker()
+        const mqttC2  = broker.connect()
+        const mqttC3  = broker.connect()
+        const mqttpS2 = new MQTTp<API>(broker.connect(), { id: "server" })
+        const mqttpC2 = new MQTTp<API>(mqttC2, { id: "client", offline: { mode: "queue", store } })
+        const mqttpC3 = new MQTTp<API>(mqttC3, { id: "client3" })
+        const subscription = await mqttpS2.subscribe("example/server/sample", (str, num) => {
+            spy(`${str}:${num}`)
+        })
+        const registration = await mqttpS2.register("example/server/hello", (a1, a2) => `${a1}:${a2}`)
+
+        /*  queue emits and calls while offline (and keep them on further connection losses)  */
+        broker.interrupt(mqttC2)
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        mqttpC2.emit("example/server/sample", "world", 42)
+        const call = mqttpC2.call({ service: "example/server/hello", params: [ "world", 42 ], timeout: 200 })
+        mqttC2.emit("close")
+        await new Promise((resolve) => { setTimeout(resolve, 100) })
+        expect(spy.called).to.be.equal(false)
+        expect(saved).to.be.deep.equal([ 1, 2 ])
+        mqttC2.reconnect()
+        expect(await call).to.be.equal("world:42")
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([ "world:42" ])
+        expect(saved.at(-1)).to.be.equal(0)
+
+        /*  time out calls which stay queued while offline  */
+        broker.interrupt(mqttC2)
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        const error = await mqttpC2.call({ service: "example/server/hello", params: [ "world", 42 ], timeout: 50 })
+            .catch((err: Error) => err.message)
+        expect(error).to.be.equal("communication timeout")
+        mqttC2.reconnect()
+
+        /*  fail calls immediately while offline (by default)  */
+        broker.interrupt(mqttC3)
+        const result = await mqttpC3.call("example/server/hello", "world", 42).catch((err: Error) => err.message)
+        expect(result).to.be.equal("client offline")
+        mqttC3.reconnect()
+
+        /*  cleanup  */
+        await subscription.unsubscribe()
+        await registration.unregister()
+        await mqttpC3.destroy()
+        await mqttpC2.destroy()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: Diagnostic Events  */
+    it("MQTT+ Diagnostic Events", async function () {
+        /*  setup  */
+        this.timeout(1000)
+        const spy = sinon.spy()
+        const broker  = new MQTTp.LoopbackBroker()
+        const mqttS2  = broker.connect()
+        const mqttC2  = broker.connect()
+        const mqttpS2 = new MQTTp<API>(mqttS2, { id: "server" })
+        const mqttpC2 = new MQTTp<API>(mqttC2, { id: "client" })
+        const mqttErrors = sinon.spy()
+        mqttC2.on("error", mqttErrors)
+        const onError    = (err: Error, diag: Diagnostic) => { spy(`error:${diag.category}:${diag.peerId}:${err.message}`) }
+        const onRejected = (_err: Error, diag: Diagnostic) => { spy(`rejected:${diag.category}:${diag.topic}`) }
+        mqttpC2.on("error", onError).on("message-rejected", onRejected)
+        const subscription = await mqttpC2.subscribe("example/server/sample", (_str, _num) => {
+            throw new Error("handler failed")
+        })
+
+        /*  report handler failures and unparsable messages  */
+        mqttpS2.emit("example/server/sample", "world", 42)
+        mqttS2.publish("example/server/sample/event-emission/any", Buffer.from([ 0xff, 0x00 ]))
+        await new Promise((resolve) => { setTimeout(resolve, 20) })
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([
+            "error:handler:server:handler failed",
+            "rejected:parse:example/server/sample/event-emission/any"
+        ])
+        expect(mqttErrors.called).to.be.equal(false)
+
+        /*  report failing handlers as errors  */
+        spy.resetHistory()
+        const onRejectedFailing = () => { throw new Error("diagnostic handler failed") }
+        mqttpC2.off("message-rejected", onRejected).on("message-rejected", onRejectedFailing)
+        mqttS2.publish("example/server/sample/event-emission/any", Buffer.from([ 0xff, 0x00 ]))
+        await new Promise((resolve) => { setTimeout(resolve, 20) })
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([
+            "error:handler:undefined:diagnostic handler failed"
+        ])
+
+        /*  detach handlers (falling back to errors on the MQTT client)  */
+        spy.resetHistory()
+        mqttpC2.off("error", onError).off("message-rejected", onRejectedFailing)
+        mqttpS2.emit("example/server/sample", "world", 42)
+        await new Promise((resolve) => { setTimeout(resolve, 20) })
+        expect(spy.called).to.be.equal(false)
+        expect(mqttErrors.getCalls().map((call) => call.firstArg.message)).to.be.deep.equal([ "handler failed" ])
+
+        /*  cleanup  */
+        await subscription.unsubscribe()
+        await mqttpC2.destroy()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: Destruction  */
+    it("MQTT+ Destruction", async function () {
+        /*  setup  */
+        this.timeout(1000)
+        const broker  = new MQTTp.LoopbackBroker()
+        const mqttC2  = broker.connect()
+        const mqttpS2 = new MQTTp<API>(broker.connect(), { id: "server" })
+        const mqttpC2 = new MQTTp<API>(mqttC2, { id: "client" })
+        const registration = await mqttpS2.register("example/server/slow", async (ms) => {
+            await new Promise((resolve) => { setTimeout(resolve, ms) })
+            return `slept:${ms}`
+        })
+        const provisioning = await mqttpS2.provision("example/server/download", async (_filename, info) => {
+            info.stream = new stream.Readable({ read (_size) {} })
+        })
+        await mqttpC2.join()
+
+        /*  settle all pending operations on destruction  */
+        const iterator = mqttpC2.events("example/server/sample")
+        const next     = iterator.next().catch((err: Error) => err.message)
+        const call     = mqttpC2.call("example/server/slow", 500).catch((err: Error) => err.message)
+        const fetch    = await mqttpC2.fetch("example/server/download", "foo")
+        const buffer   = fetch.buffer.catch((err: Error) => err.message)
+        await new Promise((resolve) => { setTimeout(resolve, 20) })
+        await mqttpC2.destroy()
+        expect(await next).to.be.equal("destroyed")
+        expect(await call).to.be.equal("destroyed")
+        expect(await buffer).to.be.equal("destroyed")
+        expect((mqttC2 as any).subscriptions.size).to.be.equal(0)
+        expect([ ...broker.retainedMessages().keys() ]).to.not.include("mqtt-plus/peer-presence/client")
+
+        /*  settle destruction without a connection (dry-run instance)  */
+        const mqttpDry = new MQTTp<API>(null, { id: "dry" })
+        mqttpDry.subscribe("example/server/sample", () => {}).catch(() => {})
+        await mqttpDry.destroy()
+
+        /*  settle destruction without an acknowledged unsubscription  */
+        const spy = sinon.spy()
+        const mqttC3  = broker.connect()
+        const mqttpC3 = new MQTTp<API>(mqttC3, { id: "client3", timeout: 100 })
+        mqttpC3.on("error", (err) => { spy(err.message) })
+        await mqttpC3.subscribe("example/server/sample", () => {})
+        mqttC3.unsubscribe = (() => mqttC3) as unknown as typeof mqttC3.unsubscribe
+        await mqttpC3.destroy()
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([ "unsubscribe: communication timeout" ])
+
+        /*  cleanup  */
+        await provisioning.unprovision()
+        await registration.unregister()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: Peer Presence  */
+    it("MQTT+ Peer Presence", async function () {
+        /*  setup  */
+        this.timeout(1000)
+        const spy = sinon.spy()
+        const mqttpDry = new MQTTp<API>(null, { id: "server" })
+        const will     = mqttpDry.presenceWill()
+        await mqttpDry.destroy()
+        const broker  = new MQTTp.LoopbackBroker()
+        const mqttS2  = broker.connect({ will })
+        const mqttpS2 = new MQTTp<API>(mqttS2, { id: "server" })
+        const mqttpC2 = new MQTTp<API>(broker.connect(), { id: "client" })
+
+        /*  join with server and offer a service  */
+        await mqttpS2.join({ meta: { role: "server" } })
+        const registration = await mqttpS2.register("example/server/hello", (a1, a2) => `${a1}:${a2}`)
+
+        /*  join with client and watch for peer changes  */
+        const watching = mqttpC2.watchPeers((change, peer) => { spy(`${change}:${peer.id}`) })
+        await mqttpC2.join()
+        await new Promise((resolve) => { setTimeout(resolve, 20) })
+        expect(mqttpC2.peers().map((peer) => peer.id)).to.have.members([ "server", "client" ])
+        expect(mqttpC2.peers({ service: "example/server/hello" })).to.be.deep.equal([ {
+            id: "server", meta: { role: "server" },
+            events: [], services: [ "example/server/hello" ], streams: [], resources: []
+        } ])
+        expect(mqttpC2.peers({ service: "example/server/count" })).to.be.deep.equal([])
+        expect(spy.getCalls().map((call) => call.firstArg)).to.include.members([ "join:server", "join:client" ])
+
+        /*  detect unregistering of the service  */
+        spy.resetHistory()
+        await registration.unregister()
+        await new Promise((resolve) => { setTimeout(resolve, 20) })
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([ "update:server" ])
+        expect(mqttpC2.peers({ service: "example/server/hello" })).to.be.deep.equal([])
+
+        /*  detect server going offline (via last-will)  */
+        spy.resetHistory()
+        broker.interrupt(mqttS2)
+        await new Promise((resolve) => { setTimeout(resolve, 20) })
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([ "leave:server" ])
+        expect(mqttpC2.peers().map((peer) => peer.id)).to.be.deep.equal([ "client" ])
+
+        /*  leave with client  */
+        await mqttpC2.leave()
+        await watching.unsubscribe()
+        expect(broker.retainedMessages().size).to.be.equal(0)
+        await mqttpC2.destroy()
+        await mqttpS2.destroy()
+    })
+
+    /*  test case: Peer Presence (over Broker)  */
+    it("MQTT+ Peer Presence (over Broker)", async function () {
+        /*  setup  */
+        this.timeout(3000)
+        const spy = sinon.spy()
+
+        /*  connect with MQTT as second server (with presence last-will)  */
+        const mqttpDry = new MQTTp<API>(null, { id: "server2" })
+        const will     = mqttpDry.presenceWill()
+        await mqttpDry.destroy()
+        const mqttS2 = MQTT.connect("mqtt://127.0.0.1:1883",
+            { clientId: "server2", username: "example", password: "example", will })
+        await new Promise<void>((resolve, reject) => {
+            mqttS2.once("connect", ()         => { resolve() })
+            mqttS2.once("error",   (err: any) => { reject(err) })
+        })
+        const mqttpS2 = new MQTTp<API>(mqttS2, { id: "server2" })
+
+        /*  join with server and client (where the client lacks the last-will)  */
+        const warning = sinon.spy()
+        mqttpC.on("warning", warning)
+        await mqttpS2.join({ meta: { role: "server" } })
+        const watching = mqttpC.watchPeers((change, peer) => { spy(`${change}:${peer.id}`) })
+        await mqttpC.join()
+        mqttpC.off("warning", warning)
+        expect(warning.callCount).to.be.equal(1)
+        await new Promise((resolve) => { setTimeout(resolve, 100) })
+        expect(mqttpC.peers().map((peer) => peer.id)).to.have.members([ "server2", "client" ])
+        expect(spy.getCalls().map((call) => call.firstArg)).to.include.members([ "join:server2", "join:client" ])
+
+        /*  detect server going offline (via last-will)  */
+        spy.resetHistory()
+        await mqttpS2.destroy({ leave: false })
+        mqttS2.end(true)
+        await new Promise((resolve) => { setTimeout(resolve, 500) })
+        expect(spy.getCalls().map((call) => call.firstArg)).to.be.deep.equal([ "leave:server2" ])
+        expect(mqttpC.peers().map((peer) => peer.id)).to.be.deep.equal([ "client" ])
+
+        /*  leave with client  */
+        await mqttpC.leave()
+        await watching.unsubscribe()
+    })
+
+    /*  test case: Loopback Broker  */
+    it("MQTT+ Loopback Broker", async function () {
+        /*  setup  */
+        this.timeout(1000)
+        const broker = new MQTTp.LoopbackBroker()
+
+        /*  generate connection close event  */
+        const mqttpDry = new MQTTp<API>(null, { id: "my-client" })
+        const will = mqttpDry.emit({ dry: true, event: "example/server/connection", params: [ "close" ] })
+        await mqttpDry.destroy()
+
+        /*  connect to broker as a server and a client (with last-will)  */
+        const mqttServer = broker.connect({ clientId: "server" })
+        const mqttClient = broker.connect({ clientId: "client", will })
+        const mqttpServer = new MQTTp<API>(mqttServer, { id: "server", timeout: 1000 })
+        const mqttpClient = new MQTTp<API>(mqttClient, { id: "client", timeout: 1000 })
+
+        /*  provide service and observe connection events  */
+        const spy = sinon.spy()
+        const registration = await mqttpServer.register("example/server/hello", (str: string, num: number) => {
+            return `${str}:${num}`
+        })
+        const subscription = await mqttpServer.subscribe("example/server/connection", (state) => {
+            spy(state)
+        })
+
+        /*  call service and emit event  */
+        const result = await mqttpClient.call("example/server/hello", "world", 42)
+        expect(result).to.be.equal("world:42")
+        mqttpClient.emit("example/server/connection", "open")
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+
+        /*  perform unexpected disconnect of client  */
+        broker.interrupt(mqttClient)
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        expect(spy.getCalls().map((call) => call.firstArg))
+            .to.be.deep.equal([ "open", "close" ])
+
+        /*  perform regular destruction  */
+        await subscription.unsubscribe()
+        await registration.unregister()
+        await mqttpClient.destroy()
+        await mqttpServer.destroy()
+        const events: string[] = []
+        mqttServer.on("close", () => { events.push("close") })
+        mqttServer.on("end",   () => { events.push("end") })
+        mqttServer.end()
+        await new Promise((resolve) => { setTimeout(resolve, 10) })
+        expect(events).to.be.deep.equal([ "close", "end" ])
+    })
+
     /*  actions after each test cases  */
     let testsFailed = 0
     afterEach(function () {